@@ -0,0 +1,29 @@
+const fs = require("fs");
+const { Subject } = require("rxjs");
+const { take } = require("rxjs/operators");
+const { toEDF } = require("../..");
+
+module.exports = async function (neurosity) {
+  const deviceInfo = await neurosity.getInfo();
+  const markers$ = new Subject();
+  const fd = fs.openSync("recording.edf", "w");
+
+  const markerInterval = setInterval(() => {
+    const marker = { label: "stimulus", timestamp: Date.now() };
+    neurosity.addMarker(marker.label).then(() => markers$.next(marker));
+  }, 5000);
+
+  neurosity
+    .brainwaves("raw")
+    .pipe(take(16 * 60), toEDF({ deviceInfo, markers$ }))
+    .subscribe({
+      next: ({ offset, bytes }) => {
+        fs.writeSync(fd, bytes, 0, bytes.length, offset);
+      },
+      complete: () => {
+        clearInterval(markerInterval);
+        fs.closeSync(fd);
+        console.log("saved recording.edf");
+      }
+    });
+};
@@ -0,0 +1,16 @@
+module.exports = async function (neurosity) {
+  const lsl = await neurosity.streamToLSL({
+    streams: ["raw", "accelerometer", "markers"]
+  });
+
+  console.log("LSL outlets open, start LabRecorder to record them");
+
+  setInterval(() => {
+    neurosity.addMarker("stimulus");
+  }, 5000);
+
+  process.on("SIGINT", async () => {
+    await lsl.close();
+    process.exit();
+  });
+};
@@ -1,6 +1,5 @@
 const { Neurosity } = require("../..");
-const { EMPTY } = require("rxjs");
-const { switchMap, map } = require("rxjs/operators");
+const { map } = require("rxjs/operators");
 
 // Note: when `deviceId` is not passed, and `autoSelectDevice`
 // is set to false, the `selectDevice method should be called`
@@ -22,20 +21,15 @@ const neurosity = new Neurosity({
 
   devices.forEach(async (device) => {
     const { deviceId } = device;
-    const deviceInstance = new Neurosity({ deviceId });
+    // Device handles share the login of the parent instance
+    const deviceInstance = neurosity.device(deviceId);
 
     deviceInstance
-      .onAuthStateChanged()
+      .status()
       .pipe(
-        switchMap((user) =>
-          user
-            ? deviceInstance.status().pipe(
-                map((status) => ({
-                  [deviceId]: status
-                }))
-              )
-            : EMPTY
-        )
+        map((status) => ({
+          [deviceId]: status
+        }))
       )
       .subscribe((status) => {
         console.log(status);
@@ -0,0 +1,20 @@
+const fs = require("fs");
+const { Neurosity } = require("../..");
+
+module.exports = async function (neurosity) {
+  const summary = await neurosity.record({
+    metrics: ["brainwaves/raw", "focus", "signalQuality"],
+    durationMs: 10000,
+    writer: fs.createWriteStream("session.ndjson")
+  });
+
+  console.log("recorded events", summary.eventCount);
+
+  const replay = Neurosity.replay(fs.readFileSync("session.ndjson", "utf8"), {
+    speed: 2
+  });
+
+  replay.focus().subscribe((focus) => {
+    console.log("replayed focus", focus);
+  });
+};
@@ -1,6 +1,8 @@
-import { combineLatest, Observable, of, throwError } from "rxjs";
-import { ReplaySubject, firstValueFrom } from "rxjs";
-import { map, startWith, switchMap } from "rxjs/operators";
+import { combineLatest, defer, Observable, of, throwError } from "rxjs";
+import { forkJoin, timer } from "rxjs";
+import { ReplaySubject, Subject, firstValueFrom, isObservable } from "rxjs";
+import { map, startWith, switchMap, tap } from "rxjs/operators";
+import { takeUntil } from "rxjs/operators";
 import { distinctUntilChanged } from "rxjs/operators";
 import isEqual from "fast-deep-equal";
 import { CloudClient, createUser } from "./api/index";
@@ -13,10 +15,14 @@ import { CustomToken } from "./types/credentials";
 import { Settings, ChangeSettings } from "./types/settings";
 import { SignalQuality } from "./types/signalQuality";
 import { Kinesis } from "./types/kinesis";
+import { Prediction } from "./types/predictions";
+import { MetricName, MetricLabel, MetricPayload } from "./types/metrics";
+import { AtomicMetricName } from "./types/metrics";
 import { Calm } from "./types/calm";
 import { Focus } from "./types/focus";
 import { getLabels } from "./utils/subscription";
 import { BrainwavesLabel, Epoch, PowerByBand, PSD } from "./types/brainwaves";
+import { BrainwavesOptions, BandName } from "./types/brainwaves";
 import { Accelerometer } from "./types/accelerometer";
 import { DeviceInfo, OSVersion } from "./types/deviceInfo";
 import { DeviceStatus, STATUS } from "./types/status";
@@ -35,9 +41,40 @@ import { UserClaims } from "./types/user";
 import { isNode } from "./utils/is-node";
 import { getCloudMetric } from "./utils/metrics";
 import { Experiment } from "./types/experiment";
+import { KinesisExperiment } from "./experiments";
 import { TransferDeviceOptions } from "./utils/transferDevice";
 import { BluetoothClient, osHasBluetoothSupport } from "./api/bluetooth";
 import { BLUETOOTH_CONNECTION } from "./api/bluetooth/types";
+import { Marker, MarkerOptions, AcknowledgedMarker } from "./types/marker";
+import { createMarkerBatcher, createMarkerAction } from "./utils/markers";
+import { toMarker, toAcknowledgedMarker } from "./utils/markers";
+import { RecordOptions, ReplayOptions, Session } from "./types/recording";
+import { RecordingSummary } from "./types/recording";
+import { RecordingMetric } from "./types/recording";
+import { record, Replay } from "./recording";
+import { LSLOptions } from "./types/lsl";
+import { publishToLSL, LSLPublisher } from "./lsl";
+import { AlignOptions, AlignedEpoch } from "./types/hyperscanning";
+import { alignEpochs } from "./hyperscanning";
+import { StreamHealth } from "./types/streamHealth";
+import { Fitting, FittingOptions } from "./types/fitting";
+import { toFitting } from "./fitting";
+import { NeurofeedbackUpdate } from "./types/neurofeedback";
+import { NeurofeedbackInput, NeurofeedbackTarget } from "./types/neurofeedback";
+import { NeurosityNeurofeedbackOptions } from "./types/neurofeedback";
+import { toNeurofeedback, bandPowerRatio } from "./neurofeedback";
+import { Baseline, CalibrationMetric } from "./types/calibration";
+import { CalibrationOptions, RunningStats } from "./types/calibration";
+import { BASELINE_VERSION, powerByBandStats } from "./calibration";
+import { probabilityStats } from "./calibration";
+import { ERP, ERPStreamOptions } from "./types/erp";
+import { averageERP } from "./erp";
+import { Protocol, TrialEvent } from "./types/trials";
+import { runProtocol } from "./trials";
+import { ClassifierModel } from "./types/classifiers";
+import { LocalPredictionsOptions } from "./types/classifiers";
+import { deserializeClassifier, toPredictions } from "./classifiers";
+import { toStreamHealth, epochToSamples, epoch } from "./utils/pipes";
 
 const defaultOptions = {
   timesync: false,
@@ -49,7 +86,9 @@ const defaultOptions = {
   emulatorDatabasePort: 9000,
   emulatorFunctionsPort: 5001,
   emulatorFirestorePort: 8080,
-  emulatorOptions: {}
+  emulatorOptions: {},
+  markerBatchInterval: 0,
+  acknowledgeMarkers: false
 };
 
 /**
@@ -88,6 +127,26 @@ export class Neurosity {
    */
   private streamingMode$ = new ReplaySubject<STREAMING_MODE>(1);
 
+  /**
+   * @hidden
+   */
+  private markers$ = new Subject<Marker>();
+
+  /**
+   * @hidden
+   */
+  private acknowledgedMarkers$ = new Subject<AcknowledgedMarker>();
+
+  /**
+   * @hidden
+   */
+  private markerBatcher: (marker: Marker) => Promise<any>;
+
+  /**
+   * @hidden
+   */
+  private devices = new Map<string, Neurosity>();
+
   /**
    *
    * @hidden
@@ -106,6 +165,28 @@ export class Neurosity {
    */
   static SERVER_TIMESTAMP = SERVER_TIMESTAMP;
 
+  /**
+   * Plays back a session recorded with `neurosity.record()`. The returned
+   * object exposes the same observables as the SDK, so analysis code can run
+   * unchanged against historical data.
+   *
+   * ```typescript
+   * const session = fs.readFileSync("session.ndjson", "utf8");
+   * const replay = Neurosity.replay(session, { speed: 2 });
+   *
+   * replay.focus().subscribe((focus) => {
+   *   console.log(focus.probability);
+   * });
+   * ```
+   *
+   * @param session Session parsed with `parseSession()`, or the contents of
+   * a session file
+   * @param options
+   */
+  static replay(session: Session | string, options?: ReplayOptions): Replay {
+    return new Replay(session, options);
+  }
+
   /**
    * Creates new instance of the Neurosity SDK
    * 
@@ -115,7 +196,13 @@ export class Neurosity {
 
    * @param options
    */
-  constructor(options: SDKOptions = {}) {
+  constructor(
+    options: SDKOptions = {},
+    /**
+     * @hidden
+     */
+    dependencies: { cloudClient?: CloudClient } = {}
+  ) {
     const { streamingMode, bluetoothTransport } = options;
 
     this.options = Object.freeze({
@@ -123,17 +210,34 @@ export class Neurosity {
       ...options
     });
 
-    this.cloudClient = new CloudClient(this.options);
+    this.cloudClient =
+      dependencies.cloudClient ?? new CloudClient(this.options);
 
     if (!!bluetoothTransport) {
       this.bluetoothClient = new BluetoothClient({
         selectedDevice$: this.onDeviceChange(),
         osHasBluetoothSupport$: this._osHasBluetoothSupport(),
         createBluetoothToken: this.createBluetoothToken.bind(this),
-        transport: bluetoothTransport
+        transport: bluetoothTransport,
+        codecs: options.bluetoothCodecs
       });
     }
 
+    const { acknowledgeMarkers } = this.options;
+
+    this.markerBatcher = createMarkerBatcher({
+      interval: this.options.markerBatchInterval,
+      dispatch: (marker) =>
+        this._withStreamingModePromise({
+          wifi: () =>
+            this.cloudClient.dispatchAction(
+              createMarkerAction(marker, acknowledgeMarkers)
+            ),
+          bluetooth: () =>
+            this.bluetoothClient.sendMarker(marker, acknowledgeMarkers)
+        })
+    });
+
     this._initStreamingMode(streamingMode, !!bluetoothTransport);
   }
 
@@ -358,6 +462,101 @@ export class Neurosity {
     };
   }
 
+  /**
+   * <StreamingModes wifi={true} />
+   *
+   * Returns a handle to another device claimed by the logged in user, with
+   * the full metric and action API. Handles share the authentication of this
+   * instance, but have their own subscriptions and timesync offset, so several
+   * devices can stream concurrently, e.g. for hyperscanning.
+   *
+   * Since the session is shared, `logout()` rejects on a handle and has to be
+   * called on this instance, which ends the session of every handle.
+   * `disconnect()` on a handle only closes that device's connection.
+   *
+   * ```typescript
+   * const crownA = neurosity.device("deviceIdA");
+   * const crownB = neurosity.device("deviceIdB");
+   *
+   * crownA.brainwaves("raw").subscribe((brainwaves) => {});
+   * crownB.brainwaves("raw").subscribe((brainwaves) => {});
+   * ```
+   *
+   * @param deviceId Id of the device
+   * @returns Neurosity instance for the device
+   */
+  public device(deviceId: string): Neurosity {
+    if (!deviceId) {
+      throw new Error(`${errors.prefix}A device id is required.`);
+    }
+
+    if (!this.devices.has(deviceId)) {
+      // Bluetooth transports are bound to a single device, so handles
+      // stream over wifi
+      const { bluetoothTransport, streamingMode, ...options } = this.options;
+
+      this.devices.set(
+        deviceId,
+        new Neurosity(
+          { ...options, deviceId, autoSelectDevice: false },
+          { cloudClient: this.cloudClient.forDevice(deviceId) }
+        )
+      );
+    }
+
+    return this.devices.get(deviceId);
+  }
+
+  /**
+   * <StreamingModes wifi={true} />
+   *
+   * Streams raw brainwaves of several devices aligned onto a common local
+   * timeline. Channels are prefixed with the device id, and each frame
+   * reports the alignment drift between devices. Requires `timesync` to
+   * correct for device clock offsets.
+   *
+   * ```typescript
+   * neurosity
+   *   .hyperscan(["deviceIdA", "deviceIdB"])
+   *   .subscribe((frame) => {
+   *     console.log(frame.info.channelNames, frame.info.drift);
+   *   });
+   * ```
+   *
+   * @param deviceIds Ids of the devices to align
+   * @param options
+   * @returns Observable of aligned epochs
+   */
+  public hyperscan(
+    deviceIds: string[],
+    options: AlignOptions = {}
+  ): Observable<AlignedEpoch> {
+    if (!this.options.timesync) {
+      console.warn(
+        `${errors.prefix}hyperscan() requires options.timesync to be true to correct device clock offsets.`
+      );
+    }
+
+    const devices = deviceIds.map((deviceId) => this.device(deviceId));
+
+    return defer(() =>
+      Promise.all(devices.map((device) => device.getInfo()))
+    ).pipe(
+      switchMap((infos) =>
+        alignEpochs(
+          devices.map((device, index) => ({
+            deviceId: deviceIds[index],
+            epochs: device.brainwaves("raw") as Observable<Epoch>,
+            timesyncOffset: () =>
+              this.options.timesync ? device.getTimesyncOffset() : 0,
+            channelNames: infos[index]?.channelNames
+          })),
+          options
+        )
+      )
+    );
+  }
+
   /**
    * Starts user session
    *
@@ -375,7 +574,8 @@ export class Neurosity {
   }
 
   /**
-   * Ends user session
+   * Ends user session. Rejects on handles returned by `device()`, since they
+   * share the session of the instance that created them.
    *
    * ```typescript
    * await neurosity.logout();
@@ -612,7 +812,8 @@ export class Neurosity {
   /**
    * <StreamingModes wifi={true} bluetooth={true} />
    *
-   * Ends database connection
+   * Ends database connection. On handles returned by `device()`, only the
+   * connection to that device is closed.
    *
    * ```typescript
    * await neurosity.disconnect();
@@ -654,39 +855,79 @@ export class Neurosity {
   /**
    * <StreamingModes wifi={true} bluetooth={true} />
    *
-   * Injects an EEG marker to data stream
+   * Injects an EEG marker to data stream. Besides a label, markers can carry
+   * a numeric value, a duration and metadata. Markers added within
+   * `options.markerBatchInterval` are sent to the device in order, one action
+   * per marker, and keep the timestamp of when they were added. Markers are
+   * available to `record()`, `erp()` and LSL as soon as they are added, and
+   * are sent without waiting for the device to respond, unless
+   * `options.acknowledgeMarkers` is enabled.
    *
    * ```typescript
    * neurosity.addMarker("eyes-closed");
    *
    * // later...
    *
-   * neurosity.addMarker("eyes-open");
+   * neurosity.addMarker({
+   *   label: "stimulus",
+   *   value: 3,
+   *   durationMs: 500,
+   *   metadata: { image: "face-12.png" }
+   * });
    * ```
    *
-   * @param label Name the label to inject
+   * @param labelOrOptions Name of the label to inject, or the marker
    */
-  public async addMarker(label: string): Promise<Action> {
+  public async addMarker(
+    labelOrOptions: string | MarkerOptions
+  ): Promise<Action> {
     if (!(await this.cloudClient.didSelectDevice())) {
       throw errors.mustSelectDevice;
     }
 
-    if (!label) {
-      throw new Error(`${errors.prefix}A label is required for addMarker`);
+    const marker = toMarker(labelOrOptions, this.cloudClient.timestamp);
+
+    const [hasOAuthError, OAuthError] = validateOAuthScopeForAction(
+      this.cloudClient.userClaims,
+      createMarkerAction(marker)
+    );
+
+    if (hasOAuthError) {
+      throw OAuthError;
     }
 
-    return await this._withStreamingModePromise({
-      wifi: () =>
-        this.cloudClient.dispatchAction({
-          command: "marker",
-          action: "add",
-          message: {
-            label,
-            timestamp: this.cloudClient.timestamp
-          }
-        }),
-      bluetooth: () => this.bluetoothClient.addMarker(label)
-    });
+    // Streams aligned on markers get them right away, the device response
+    // only matters for acknowledgements
+    this.markers$.next(marker);
+
+    const response = await this.markerBatcher(marker);
+
+    if (this.options.acknowledgeMarkers) {
+      this.acknowledgedMarkers$.next(
+        toAcknowledgedMarker(marker, response, this.cloudClient.timestamp)
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * <StreamingModes wifi={true} bluetooth={true} />
+   *
+   * Observes markers added via `addMarker` once the device responds to them.
+   * Requires `options.acknowledgeMarkers`, otherwise markers are sent
+   * without a response and nothing is emitted.
+   *
+   * ```typescript
+   * neurosity.markers().subscribe((marker) => {
+   *   console.log(marker.label, marker.acknowledgedAt - marker.timestamp);
+   * });
+   * ```
+   *
+   * @returns Observable of acknowledged markers
+   */
+  public markers(): Observable<AcknowledgedMarker> {
+    return this.acknowledgedMarkers$.asObservable();
   }
 
   /**
@@ -853,6 +1094,16 @@ export class Neurosity {
    * });
    * ```
    *
+   * Both raw labels can be re-windowed to a given number of samples per epoch. `hop` is the number of new samples between epochs and defaults to `epochSize`, so a smaller `hop` produces overlapping epochs. Windows are the same for Wi-Fi and Bluetooth.
+   *
+   * Example
+   * ```typescript
+   * // 1 second epochs, emitted every 250ms
+   * neurosity.brainwaves("raw", { epochSize: 256, hop: 64 }).subscribe(brainwaves => {
+   *   console.log(brainwaves);
+   * });
+   * ```
+   *
    * Power By Band - The `powerByBand` brainwaves parameter emits epochs 4 times a second. Every frequency label (e.g. beta) contains an average power value per channel.
    * 
    * Example
@@ -872,10 +1123,12 @@ export class Neurosity {
    * ```
    *
    * @param label Name of metric properties to filter by
+   * @param options Epoch size and hop in samples, only for `raw` and `rawUnfiltered`
    * @returns Observable of brainwaves metric events
    */
   public brainwaves(
-    label: BrainwavesLabel
+    label: BrainwavesLabel,
+    options?: BrainwavesOptions
   ): Observable<Epoch | PowerByBand | PSD> {
     const [hasOAuthError, OAuthError] = validateOAuthScopeForFunctionName(
       this.cloudClient.userClaims,
@@ -886,6 +1139,36 @@ export class Neurosity {
       return throwError(() => OAuthError);
     }
 
+    if (options) {
+      const { epochSize, hop = epochSize } = options;
+      const isRaw = label === "raw" || label === "rawUnfiltered";
+      const isValidSize = (size: number) => Number.isInteger(size) && size > 0;
+
+      if (!isRaw) {
+        return throwError(
+          () =>
+            new Error(
+              `${errors.prefix}Epoch options are only supported by the raw and rawUnfiltered labels.`
+            )
+        );
+      }
+
+      if (!isValidSize(epochSize) || !isValidSize(hop)) {
+        return throwError(
+          () =>
+            new Error(
+              `${errors.prefix}epochSize and hop must be positive integers.`
+            )
+        );
+      }
+
+      return (this.brainwaves(label) as Observable<Epoch>).pipe(
+        epochToSamples(),
+        // The sampling rate is read from the samples' info
+        epoch({ duration: epochSize, interval: hop, samplingRate: undefined })
+      ) as Observable<Epoch>;
+    }
+
     return this._withStreamingModeObservable({
       wifi: () =>
         getCloudMetric(this._getCloudMetricDependencies(), {
@@ -899,6 +1182,53 @@ export class Neurosity {
     });
   }
 
+  /**
+   * <StreamingModes wifi={true} bluetooth={true} />
+   *
+   * Reports dropped and duplicated samples, and timing jitter of the raw
+   * brainwaves stream over a sliding window.
+   *
+   * ```typescript
+   * neurosity.streamHealth().subscribe((health) => {
+   *   console.log(health.lossRate, health.jitter, health.gaps);
+   * });
+   * ```
+   *
+   * To keep filters from running over gaps, fill them before filtering:
+   *
+   * ```typescript
+   * import { fillGaps, bandpassFilter } from "@neurosity/sdk";
+   *
+   * neurosity
+   *   .brainwaves("raw")
+   *   .pipe(
+   *     fillGaps({ method: "interpolate" }),
+   *     bandpassFilter({ lowCutoff: 1, highCutoff: 50 })
+   *   );
+   * ```
+   *
+   * @param label Either `raw` or `rawUnfiltered`, defaults to `raw`
+   * @param options Duration in ms of the window, defaults to 10 seconds
+   * @returns Observable of stream health, emitted with every epoch
+   */
+  public streamHealth(
+    label: "raw" | "rawUnfiltered" = "raw",
+    options: { windowSize?: number } = {}
+  ): Observable<StreamHealth> {
+    const [hasOAuthError, OAuthError] = validateOAuthScopeForFunctionName(
+      this.cloudClient.userClaims,
+      "streamHealth"
+    );
+
+    if (hasOAuthError) {
+      return throwError(() => OAuthError);
+    }
+
+    return (this.brainwaves(label) as Observable<Epoch>).pipe(
+      toStreamHealth(options)
+    );
+  }
+
   /**
    * <StreamingModes wifi={true} bluetooth={true} />
    *
@@ -978,6 +1308,225 @@ export class Neurosity {
     });
   }
 
+  /**
+   * <StreamingModes wifi={true} bluetooth={true} />
+   *
+   * Guides the user through fitting the headset. Signal quality goes through
+   * the `waiting`, `adjusting`, `stable` and `ready` states, with guidance for
+   * every channel. The state is `ready` once every channel has kept the
+   * required status for `stableDuration`, and is confirmed with haptics.
+   *
+   * ```typescript
+   * neurosity.fitting({ stableDuration: 3000 }).subscribe((fitting) => {
+   *   console.log(fitting.state, fitting.channels.CP3.guidance);
+   * });
+   *
+   * // "adjusting" "Wiggle the sensor until it sits firmly on the scalp"
+   * // "stable" "Hold still"
+   * // "ready" "Hold still"
+   * ```
+   *
+   * @param options Required status, stable duration and haptics
+   * @returns Observable of fitting updates
+   */
+  public fitting(options: FittingOptions = {}): Observable<Fitting> {
+    const { haptics = true } = options;
+
+    return defer(() => {
+      let wasReady = false;
+
+      return this.signalQuality().pipe(
+        toFitting(options),
+        tap((fitting: Fitting) => {
+          const isReady = fitting.state === "ready";
+
+          if (haptics && isReady && !wasReady) {
+            const effect = hapticEffects.doubleClick100;
+            this.haptics({ P7: [effect], P8: [effect] }).catch((error) => {
+              console.warn(
+                `${errors.prefix}Could not confirm fitting with haptics. ${
+                  error?.message ?? error
+                }`
+              );
+            });
+          }
+
+          wasReady = isReady;
+        })
+      );
+    });
+  }
+
+  /**
+   * <StreamingModes wifi={true} bluetooth={true} />
+   *
+   * Runs a protocol of blocks and trials, and adds a marker labelled with the
+   * trial condition at every stimulus onset. Onsets follow the timesync clock
+   * when `options.timesync` is enabled. Trial events tell the UI what to
+   * render, and report the scheduling latency versus the requested onset. The
+   * last event summarizes the latency of all trials.
+   *
+   * ```typescript
+   * neurosity
+   *   .runProtocol({
+   *     blocks: [
+   *       {
+   *         name: "oddball",
+   *         trials: [
+   *           ...Array(8).fill({ condition: "standard", duration: 100 }),
+   *           { condition: "target", duration: 100 }
+   *         ],
+   *         repetitions: 10,
+   *         randomize: true
+   *       }
+   *     ],
+   *     isi: { min: 800, max: 1200 },
+   *     seed: 42
+   *   })
+   *   .subscribe((event) => {
+   *     if (event.type === "trial") {
+   *       render(event.trial);
+   *     }
+   *   });
+   * ```
+   *
+   * @param protocol Blocks, trials, ISI and seed
+   * @returns Observable of trial events
+   */
+  public runProtocol(protocol: Protocol): Observable<TrialEvent> {
+    return runProtocol(protocol, {
+      addMarker: (marker) => this.addMarker(marker),
+      getTimestamp: () => this.cloudClient.timestamp
+    });
+  }
+
+  /**
+   * <StreamingModes wifi={true} bluetooth={true} />
+   *
+   * Averages event-related potentials of `raw` brainwaves per condition.
+   * Every stimulus cuts a time-locked, baseline corrected trial, and the
+   * running average of its condition is emitted with the trial count. Stimuli
+   * are the markers added via `addMarker`, unless `events$` is provided.
+   *
+   * ```typescript
+   * neurosity
+   *   .erp({ preStimulus: 200, postStimulus: 800, conditions: ["target"] })
+   *   .subscribe((erp) => {
+   *     console.log(erp.condition, erp.trialCount, erp.data);
+   *   });
+   *
+   * neurosity.addMarker("target");
+   * ```
+   *
+   * @param options Trial window, baseline and stimulus events
+   * @returns Observable of averaged ERPs
+   */
+  public erp(options: ERPStreamOptions = {}): Observable<ERP> {
+    const { events$ = this.markers$.asObservable(), ...erpOptions } = options;
+
+    return (this.brainwaves("raw") as Observable<Epoch>).pipe(
+      averageERP(events$, erpOptions)
+    );
+  }
+
+  /**
+   * <StreamingModes wifi={true} bluetooth={true} />
+   *
+   * Runs a neurofeedback session. The target metric is compared with a
+   * threshold from the given strategy, and values past the threshold are
+   * rewarded via `onReward` and/or a haptic effect. Every update includes the
+   * session stats, such as rewards and time in target.
+   *
+   * ```typescript
+   * neurosity
+   *   .neurofeedback({
+   *     target: { bandRatio: ["alpha", "theta"] },
+   *     threshold: { type: "baseline", duration: 60000, offset: 0.5 },
+   *     hapticReward: neurosity.getHapticEffects().strongClick100,
+   *     duration: 10 * 60 * 1000
+   *   })
+   *   .subscribe((update) => {
+   *     console.log(update.inTarget, update.stats.percentInTarget);
+   *   });
+   * ```
+   *
+   * @param options Target metric, threshold strategy and rewards
+   * @returns Observable of neurofeedback updates
+   */
+  public neurofeedback(
+    options: NeurosityNeurofeedbackOptions
+  ): Observable<NeurofeedbackUpdate> {
+    const { target, hapticReward, onReward, ...sessionOptions } = options;
+
+    const target$ = this._getNeurofeedbackTarget(target);
+
+    if (!target$) {
+      return throwError(
+        () =>
+          new Error(
+            `${errors.prefix}Invalid neurofeedback target: ${JSON.stringify(
+              target
+            )}`
+          )
+      );
+    }
+
+    return target$.pipe(
+      toNeurofeedback({
+        ...sessionOptions,
+        onReward: (reward) => {
+          onReward?.(reward);
+
+          if (hapticReward) {
+            this.haptics({ P7: [hapticReward], P8: [hapticReward] }).catch(
+              (error) => {
+                console.warn(
+                  `${errors.prefix}Could not play neurofeedback reward. ${
+                    error?.message ?? error
+                  }`
+                );
+              }
+            );
+          }
+        }
+      })
+    );
+  }
+
+  /**
+   * @internal
+   * Not user facing.
+   */
+  private _getNeurofeedbackTarget(
+    target: NeurofeedbackTarget
+  ): Observable<NeurofeedbackInput> | null {
+    if (isObservable(target)) {
+      return target;
+    }
+
+    if (target === "focus") {
+      return this.focus();
+    }
+
+    if (target === "calm") {
+      return this.calm();
+    }
+
+    if (
+      typeof target === "object" &&
+      target !== null &&
+      "bandRatio" in target &&
+      Array.isArray(target.bandRatio)
+    ) {
+      const [numerator, denominator] = target.bandRatio;
+      return (this.brainwaves("powerByBand") as Observable<PowerByBand>).pipe(
+        bandPowerRatio(numerator, denominator)
+      );
+    }
+
+    return null;
+  }
+
   /**
    * <StreamingModes wifi={true} />
    *
@@ -1080,7 +1629,9 @@ export class Neurosity {
    * @param label Name of metric properties to filter by
    * @returns Observable of kinesis metric events
    */
-  public kinesis(label: string): Observable<Kinesis> {
+  public kinesis<L extends MetricLabel<"kinesis">>(
+    label: L
+  ): Observable<Kinesis<L>> {
     const metric = "kinesis";
 
     const [hasOAuthError, OAuthError] = validateOAuthScopeForFunctionName(
@@ -1092,20 +1643,64 @@ export class Neurosity {
       return throwError(() => OAuthError);
     }
 
-    return getCloudMetric(this._getCloudMetricDependencies(), {
+    return getCloudMetric<Kinesis<L>>(this._getCloudMetricDependencies(), {
       metric,
       labels: label ? [label] : [],
       atomic: false
     });
   }
 
+  /**
+   * <StreamingModes wifi={true} bluetooth={true} />
+   *
+   * Classifies `raw` brainwaves locally with a model trained by
+   * `trainClassifier()`, so mental commands can be prototyped without cloud
+   * training, e.g. when streaming via Bluetooth only. Emits the most probable
+   * label in the same shape as `kinesis()`. Errors when the device streams
+   * other channels or another sampling rate than the model was trained on.
+   *
+   * ```typescript
+   * const model = deserializeClassifier(fs.readFileSync("model.json", "utf8"));
+   *
+   * neurosity.localPredictions(model).subscribe((prediction) => {
+   *   console.log(prediction.label, prediction.probability);
+   * });
+   * ```
+   *
+   * @param model Trained model or its JSON string
+   * @param options Samples between predictions
+   * @returns Observable of predictions
+   */
+  public localPredictions(
+    model: ClassifierModel | string,
+    options: LocalPredictionsOptions = {}
+  ): Observable<Kinesis> {
+    let classifier: ClassifierModel;
+
+    try {
+      classifier =
+        typeof model === "string" ? deserializeClassifier(model) : model;
+    } catch (error) {
+      return throwError(() => error);
+    }
+
+    const { epochSize } = classifier;
+    const { hop = Math.max(1, Math.round(epochSize / 4)) } = options;
+
+    return (
+      this.brainwaves("raw", { epochSize, hop }) as Observable<Epoch>
+    ).pipe(toPredictions(classifier));
+  }
+
   /**
    * <StreamingModes wifi={true} />
    *
    * @param label Name of metric properties to filter by
    * @returns Observable of predictions metric events
    */
-  public predictions(label: string): Observable<any> {
+  public predictions<L extends MetricLabel<"predictions">>(
+    label: L
+  ): Observable<Prediction<L>> {
     const metric = "predictions";
 
     const [hasOAuthError, OAuthError] = validateOAuthScopeForFunctionName(
@@ -1117,13 +1712,91 @@ export class Neurosity {
       return throwError(() => OAuthError);
     }
 
-    return getCloudMetric(this._getCloudMetricDependencies(), {
+    return getCloudMetric<Prediction<L>>(this._getCloudMetricDependencies(), {
       metric,
       labels: label ? [label] : [],
       atomic: false
     });
   }
 
+  /**
+   * <StreamingModes wifi={true} bluetooth={true} />
+   *
+   * Observes any metric by name and label. The payload type is inferred from
+   * the metric and label, and invalid labels are rejected at compile time.
+   * Metrics with a dedicated method, like `focus` or `brainwaves`, are
+   * delegated to it so Bluetooth streaming is supported.
+   *
+   * ```typescript
+   * neurosity.metric("kinesis", "leftArm").subscribe((kinesis) => {
+   *   console.log(kinesis.probability);
+   * });
+   *
+   * neurosity.metric("signalQuality").subscribe((signalQuality) => {
+   *   console.log(signalQuality);
+   * });
+   * ```
+   *
+   * @param metric Name of the metric
+   * @param label Label of the metric. Required, except for `signalQuality`, `accelerometer` and `status`
+   * @returns Observable of metric events
+   */
+  public metric<M extends AtomicMetricName>(
+    metric: M
+  ): Observable<MetricPayload<M>>;
+  public metric<M extends MetricName, L extends MetricLabel<M>>(
+    metric: M,
+    label: L
+  ): Observable<MetricPayload<M, L>>;
+  public metric<M extends MetricName, L extends MetricLabel<M>>(
+    metric: M,
+    label?: L
+  ): Observable<MetricPayload<M, L>> {
+    const delegate = (observable: Observable<any>) =>
+      observable as Observable<MetricPayload<M, L>>;
+
+    switch (metric) {
+      case "kinesis":
+        return delegate(this.kinesis(label as MetricLabel<"kinesis">));
+      case "predictions":
+        return delegate(this.predictions(label as MetricLabel<"predictions">));
+      case "brainwaves":
+        return delegate(this.brainwaves(label as BrainwavesLabel));
+      case "signalQuality":
+        return delegate(this.signalQuality());
+      case "accelerometer":
+        return delegate(this.accelerometer());
+      case "status":
+        return delegate(this.status());
+    }
+
+    if (metric === "awareness" && label === "focus") {
+      return delegate(this.focus());
+    }
+
+    if (metric === "awareness" && label === "calm") {
+      return delegate(this.calm());
+    }
+
+    const [hasOAuthError, OAuthError] = validateOAuthScopeForFunctionName(
+      this.cloudClient.userClaims,
+      metric
+    );
+
+    if (hasOAuthError) {
+      return throwError(() => OAuthError);
+    }
+
+    return getCloudMetric<MetricPayload<M, L>>(
+      this._getCloudMetricDependencies(),
+      {
+        metric,
+        labels: label ? [label] : [],
+        atomic: false
+      }
+    );
+  }
+
   /**
    * <StreamingModes wifi={true} bluetooth={true} />
    *
@@ -1278,6 +1951,55 @@ export class Neurosity {
     };
   }
 
+  /**
+   * <StreamingModes wifi={true} />
+   *
+   * Starts a new Kinesis experiment to run guided trials. Only a new
+   * experiment id is generated, no experiment record is written: the backend
+   * creates it, with its name, labels and `totalTrials`, from the trainings
+   * recorded with the id. It is listed by `onUserExperiments()` once the first
+   * trial is processed.
+   *
+   * ```typescript
+   * const experiment = await neurosity.createExperiment();
+   *
+   * experiment.runTrials({ label: "leftHandPinch", trials: 8 }).subscribe();
+   * ```
+   *
+   * @returns Promise of the experiment
+   */
+  public async createExperiment(): Promise<KinesisExperiment> {
+    if (!(await this.cloudClient.didSelectDevice())) {
+      throw errors.mustSelectDevice;
+    }
+
+    return this.experiment(this.cloudClient.createUserExperimentId());
+  }
+
+  /**
+   * <StreamingModes wifi={true} />
+   *
+   * Resumes an experiment listed by `onUserExperiments()` to run more trials
+   * or observe its progress
+   *
+   * ```typescript
+   * const [latest] = await firstValueFrom(neurosity.onUserExperiments());
+   *
+   * neurosity.experiment(latest.id).progress().subscribe((progress) => {
+   *   console.log(progress.experiment.totalTrials);
+   * });
+   * ```
+   *
+   * @param experimentId The ID of the Experiment
+   * @returns The experiment
+   */
+  public experiment(experimentId: string): KinesisExperiment {
+    return new KinesisExperiment(experimentId, {
+      training: this.training,
+      experiments$: this.onUserExperiments()
+    });
+  }
+
   /**
    * @internal
    * Proof of Concept for disconnecting db
@@ -1358,6 +2080,225 @@ export class Neurosity {
     return this.options.timesync ? this.cloudClient.getTimesyncOffset() : 0;
   }
 
+  /**
+   * <StreamingModes wifi={true} bluetooth={true} />
+   *
+   * Records the selected metrics and markers added via `addMarker` for
+   * `durationMs`. Every event is written to `writer` as it arrives, so long
+   * recordings don't grow in memory. Events are timestamped with the timesync
+   * clock when `options.timesync` is enabled. The session file can be played
+   * back with `Neurosity.replay()`.
+   *
+   * ```typescript
+   * const summary = await neurosity.record({
+   *   metrics: ["brainwaves/raw", "focus", "signalQuality"],
+   *   durationMs: 60000,
+   *   writer: fs.createWriteStream("session.ndjson")
+   * });
+   *
+   * console.log(summary.eventCount);
+   * ```
+   *
+   * @param options
+   * @returns Promise of the recording summary, once the writer has flushed
+   * the session file
+   */
+  public async record(options: RecordOptions): Promise<RecordingSummary> {
+    const { metrics, durationMs, writer } = options;
+
+    if (!(await this.cloudClient.didSelectDevice())) {
+      throw errors.mustSelectDevice;
+    }
+
+    if (!metrics?.length) {
+      throw new Error(`${errors.prefix}At least one metric is required.`);
+    }
+
+    const streams = Object.fromEntries(
+      [...new Set(metrics)].map((metric) => [
+        metric,
+        this._getRecordingStream(metric)
+      ])
+    );
+
+    return await record(
+      {
+        streams,
+        markers$: this.markers$.asObservable(),
+        deviceInfo: await this.getSelectedDevice(),
+        getTimestamp: () => this.cloudClient.timestamp
+      },
+      { durationMs, writer }
+    );
+  }
+
+  /**
+   * <StreamingModes wifi={true} bluetooth={true} />
+   *
+   * Records the selected metrics under a labelled baseline condition for
+   * `durationMs` and resolves with their mean and variance. The baseline is
+   * JSON serializable, so it can be stored and used later with the `zScore`
+   * operator to compare sessions and users.
+   *
+   * ```typescript
+   * const baseline = await neurosity.calibrate({
+   *   label: "eyes-open",
+   *   metrics: ["powerByBand", "calm"],
+   *   durationMs: 60000,
+   *   addMarkers: true
+   * });
+   *
+   * neurosity
+   *   .brainwaves("powerByBand")
+   *   .pipe(zScore(baseline, "powerByBand"))
+   *   .subscribe((zScores) => {
+   *     console.log(zScores.data.alpha);
+   *   });
+   * ```
+   *
+   * @param options
+   * @returns Promise of the baseline
+   */
+  public async calibrate(options: CalibrationOptions): Promise<Baseline> {
+    const { label, metrics, durationMs, addMarkers = false } = options;
+
+    if (!(await this.cloudClient.didSelectDevice())) {
+      throw errors.mustSelectDevice;
+    }
+
+    if (!label) {
+      throw new Error(`${errors.prefix}A label is required for calibrate`);
+    }
+
+    if (!metrics?.length) {
+      throw new Error(`${errors.prefix}At least one metric is required.`);
+    }
+
+    if (addMarkers) {
+      await this.addMarker(`${label}-start`);
+    }
+
+    const startTime = this.cloudClient.timestamp;
+
+    const stats = await firstValueFrom(
+      forkJoin(
+        Object.fromEntries(
+          [...new Set(metrics)].map((metric) => [
+            metric,
+            this._getCalibrationStream(metric, durationMs)
+          ])
+        )
+      )
+    );
+
+    const endTime = this.cloudClient.timestamp;
+
+    if (addMarkers) {
+      await this.addMarker(`${label}-end`);
+    }
+
+    return {
+      version: BASELINE_VERSION,
+      label,
+      startTime,
+      endTime,
+      ...stats
+    };
+  }
+
+  /**
+   * @hidden
+   */
+  private _getCalibrationStream(
+    metric: CalibrationMetric,
+    durationMs: number
+  ): Observable<RunningStats | Record<BandName, RunningStats[]>> {
+    const end$ = timer(durationMs);
+
+    switch (metric) {
+      case "powerByBand":
+        return (this.brainwaves("powerByBand") as Observable<PowerByBand>).pipe(
+          takeUntil(end$),
+          powerByBandStats()
+        );
+      case "focus":
+        return this.focus().pipe(takeUntil(end$), probabilityStats());
+      case "calm":
+        return this.calm().pipe(takeUntil(end$), probabilityStats());
+      default:
+        return throwError(
+          () => new Error(`${errors.prefix}${metric} cannot be calibrated.`)
+        );
+    }
+  }
+
+  /**
+   * @hidden
+   */
+  private _getRecordingStream(metric: RecordingMetric): Observable<any> {
+    const [name, label] = metric.split("/");
+
+    switch (name) {
+      case "brainwaves":
+        return this.brainwaves(label as BrainwavesLabel);
+      case "signalQuality":
+        return this.signalQuality();
+      case "accelerometer":
+        return this.accelerometer();
+      case "focus":
+        return this.focus();
+      case "calm":
+        return this.calm();
+      case "status":
+        return this.status();
+      default:
+        return throwError(
+          () => new Error(`${errors.prefix}${metric} cannot be recorded.`)
+        );
+    }
+  }
+
+  /**
+   * <StreamingModes wifi={true} bluetooth={true} />
+   *
+   * Node only. Republishes raw brainwaves, accelerometer and markers added
+   * via `addMarker` as Lab Streaming Layer outlets, so desktop tools like
+   * LabRecorder can record them. Unlike the `lsl` device setting, this works
+   * for data streamed over Bluetooth too.
+   *
+   * ```typescript
+   * const lsl = await neurosity.streamToLSL();
+   *
+   * // later...
+   *
+   * await lsl.close();
+   * ```
+   *
+   * @param options
+   * @returns Promise of the publisher holding the open outlets
+   */
+  public async streamToLSL(options: LSLOptions = {}): Promise<LSLPublisher> {
+    if (!isNode()) {
+      throw new Error(`${errors.prefix}LSL is only supported in Node.`);
+    }
+
+    if (!(await this.cloudClient.didSelectDevice())) {
+      throw errors.mustSelectDevice;
+    }
+
+    const deviceInfo = await this.getInfo();
+
+    return await publishToLSL(
+      {
+        deviceInfo,
+        raw: () => this.brainwaves("raw") as Observable<Epoch>,
+        accelerometer: () => this.accelerometer(),
+        markers: () => this.markers$.asObservable()
+      },
+      options
+    );
+  }
+
   /**
    * Create OAuth URL
    * 💡 OAuth requires developers to register their apps with Neurosity
@@ -1,18 +1,29 @@
-import { defer, Observable, timer } from "rxjs";
+import { defer, Observable, timer, of } from "rxjs";
 import { ReplaySubject, firstValueFrom, EMPTY } from "rxjs";
 import { switchMap, share, tap, distinctUntilChanged } from "rxjs/operators";
+import { filter } from "rxjs/operators";
+import { catchError, repeat, skip, takeUntil } from "rxjs/operators";
 
 import { WebBluetoothTransport } from "./web/WebBluetoothTransport";
 import { ReactNativeTransport } from "./react-native/ReactNativeTransport";
-import { binaryBufferToEpoch } from "./utils/binaryBufferToEpoch";
+import { SimulatedTransport } from "./simulated/SimulatedTransport";
+import { samplesToEpoch } from "./utils/binaryBufferToEpoch";
+import { CodecRegistry, createCodecRegistry } from "./codecs";
 import { DeviceInfo } from "../../types/deviceInfo";
 import { Action } from "../../types/actions";
+import { Marker } from "../../types/marker";
+import { MARKER_RESPONSE_TIMEOUT } from "../../utils/markers";
 import { Epoch } from "../../types/epoch";
 import { BLUETOOTH_CONNECTION } from "./types";
 import { DeviceNicknameOrPeripheral } from "./BluetoothTransport";
 import { Peripheral } from "./react-native/types/BleManagerTypes";
+import { epoch, epochToSamples } from "../../utils/pipes";
+import { toPSD, toPowerByBand, toSignalQuality } from "../../utils/pipes";
 
-export type BluetoothTransport = WebBluetoothTransport | ReactNativeTransport;
+export type BluetoothTransport =
+  | WebBluetoothTransport
+  | ReactNativeTransport
+  | SimulatedTransport;
 
 type IsAuthenticated = boolean;
 type ExpiresIn = number;
@@ -20,11 +31,25 @@ type IsAuthenticatedResponse = [IsAuthenticated, ExpiresIn];
 
 type CreateBluetoothToken = () => Promise<string>;
 
+/**
+ * Whether derived metrics are computed by the device OS or by the SDK
+ */
+export type BrainwavesSource = "device" | "sdk";
+
+type DerivedBrainwavesLabel = "psd" | "powerByBand";
+
+type DerivedMetric = DerivedBrainwavesLabel | "signalQuality";
+
+// Same windowing the device uses: 1 second windows emitted 4 times a second
+const LOCAL_EPOCH_DURATION = 256;
+const LOCAL_EPOCH_INTERVAL = 64;
+
 type Options = {
   transport: BluetoothTransport;
   selectedDevice$: Observable<DeviceInfo>;
   osHasBluetoothSupport$: Observable<boolean>;
   createBluetoothToken: CreateBluetoothToken;
+  codecs?: CodecRegistry;
 };
 
 export class BluetoothClient {
@@ -33,6 +58,7 @@ export class BluetoothClient {
   selectedDevice$ = new ReplaySubject<DeviceInfo>(1);
   osHasBluetoothSupport$ = new ReplaySubject<boolean>(1);
   isAuthenticated$ = new ReplaySubject<IsAuthenticated>(1);
+  codecs: CodecRegistry;
 
   _focus$: Observable<any>;
   _calm$: Observable<any>;
@@ -46,13 +72,24 @@ export class BluetoothClient {
   _settings$: Observable<any>;
   _wifiNearbyNetworks$: Observable<any>;
   _wifiConnections$: Observable<any>;
+  _metricSources = {
+    psd: new ReplaySubject<BrainwavesSource>(1),
+    powerByBand: new ReplaySubject<BrainwavesSource>(1),
+    signalQuality: new ReplaySubject<BrainwavesSource>(1)
+  };
+  _addLog = (message: string) => this.transport.addLog(message);
+  /**
+   * Device info read once per authenticated session to pick codecs
+   */
+  _sessionDeviceInfo: Promise<DeviceInfo | null> = null;
 
   constructor(options: Options) {
     const {
       transport,
       selectedDevice$,
       osHasBluetoothSupport$,
-      createBluetoothToken
+      createBluetoothToken,
+      codecs
     } = options ?? {};
 
     if (!transport) {
@@ -60,6 +97,7 @@ export class BluetoothClient {
     }
 
     this.transport = transport;
+    this.codecs = codecs ?? createCodecRegistry();
 
     // Pass events to the internal selectedDevice$ if selectedDevice$ is passed via options
     if (selectedDevice$) {
@@ -106,22 +144,35 @@ export class BluetoothClient {
       )
       .subscribe();
 
+    // A new session may be a different device or OS version
+    this.isAuthenticated$
+      .pipe(
+        distinctUntilChanged(),
+        filter((isAuthenticated) => !isAuthenticated)
+      )
+      .subscribe(() => {
+        this._sessionDeviceInfo = null;
+      });
+
     // Multicast metrics (share)
     this._focus$ = this._subscribeWhileAuthenticated("focus");
     this._calm$ = this._subscribeWhileAuthenticated("calm");
     this._accelerometer$ = this._subscribeWhileAuthenticated("accelerometer");
-    this._brainwavesRaw$ = this._subscribeWhileAuthenticated(
-      "raw",
-      true // skipJSONDecoding
+    this._brainwavesRaw$ = this._subscribeWhileAuthenticated("raw");
+    this._brainwavesRawUnfiltered$ =
+      this._subscribeWhileAuthenticated("rawUnfiltered");
+    this._brainwavesPSD$ = this._withLocalFallback(
+      "psd",
+      this._subscribeWhileAuthenticated("psd")
+    );
+    this._brainwavesPowerByBand$ = this._withLocalFallback(
+      "powerByBand",
+      this._subscribeWhileAuthenticated("powerByBand")
     );
-    this._brainwavesRawUnfiltered$ = this._subscribeWhileAuthenticated(
-      "rawUnfiltered",
-      true // skipJSONDecoding
+    this._signalQuality$ = this._withLocalFallback(
+      "signalQuality",
+      this._subscribeWhileAuthenticated("signalQuality")
     );
-    this._brainwavesPSD$ = this._subscribeWhileAuthenticated("psd");
-    this._brainwavesPowerByBand$ =
-      this._subscribeWhileAuthenticated("powerByBand");
-    this._signalQuality$ = this._subscribeWhileAuthenticated("signalQuality");
     this._status$ = this._subscribeWhileAuthenticated("status");
     this._settings$ = this._subscribeWhileAuthenticated("settings");
     this._wifiNearbyNetworks$ =
@@ -215,7 +266,10 @@ export class BluetoothClient {
       return this.transport.scan(options);
     }
 
-    if (this.transport instanceof WebBluetoothTransport) {
+    if (
+      this.transport instanceof WebBluetoothTransport ||
+      this.transport instanceof SimulatedTransport
+    ) {
       throw new Error(
         `scan method is compatibly with the React Native transport only`
       );
@@ -230,7 +284,10 @@ export class BluetoothClient {
       return this.transport.connect(deviceNicknameORPeripheral as Peripheral);
     }
 
-    if (this.transport instanceof WebBluetoothTransport) {
+    if (
+      this.transport instanceof WebBluetoothTransport ||
+      this.transport instanceof SimulatedTransport
+    ) {
       return deviceNicknameORPeripheral
         ? this.transport.connect(deviceNicknameORPeripheral as string)
         : this.transport.connect();
@@ -273,10 +330,31 @@ export class BluetoothClient {
     return await getter();
   }
 
-  _subscribeWhileAuthenticated(
-    characteristicName: string,
-    skipJSONDecoding = false
-  ): Observable<any> {
+  /**
+   * Reads the device info once per authenticated session. Resolves with
+   * `null` if it can't be read, so codecs for any API version are used.
+   */
+  _getSessionDeviceInfo(): Promise<DeviceInfo | null> {
+    if (!this._sessionDeviceInfo) {
+      this._sessionDeviceInfo = this.getInfo().catch((error) => {
+        this.transport.addLog(
+          `Could not read the device info, decoding with the codecs for any API version -> ${
+            error?.message ?? error
+          }`
+        );
+        return null;
+      });
+    }
+
+    return this._sessionDeviceInfo;
+  }
+
+  /**
+   * Notifications are decoded with the codec registered for the
+   * characteristic and the device's API version. The device info is only
+   * read for characteristics whose codec depends on it.
+   */
+  _subscribeWhileAuthenticated(characteristicName: string): Observable<any> {
     return this.osHasBluetoothSupport$.pipe(
       switchMap((osHasBluetoothSupport) =>
         osHasBluetoothSupport ? this.isAuthenticated$ : EMPTY
@@ -284,16 +362,122 @@ export class BluetoothClient {
       distinctUntilChanged(),
       switchMap((isAuthenticated) =>
         isAuthenticated
-          ? this.transport.subscribeToCharacteristic({
-              characteristicName,
-              skipJSONDecoding
-            })
+          ? defer(() =>
+              this.codecs.requiresDeviceInfo(characteristicName)
+                ? this._getSessionDeviceInfo()
+                : of(null)
+            ).pipe(
+              switchMap((deviceInfo: DeviceInfo | null) =>
+                this.transport
+                  .subscribeToCharacteristic({
+                    characteristicName,
+                    skipJSONDecoding: true
+                  })
+                  .pipe(
+                    this.codecs
+                      .resolve(characteristicName, deviceInfo?.apiVersion)
+                      .decode({
+                        characteristicName,
+                        deviceInfo,
+                        textCodec: this.transport.textCodec,
+                        addLog: this._addLog
+                      })
+                  )
+              )
+            )
           : EMPTY
       ),
       share()
     );
   }
 
+  /**
+   * Older OS versions don't advertise derived brainwaves or signal quality
+   * characteristics. If the characteristic is missing or errors, the metric
+   * is computed from the raw stream instead, until the next authentication
+   * tries the device again.
+   */
+  _withLocalFallback(
+    label: DerivedMetric,
+    device$: Observable<any>
+  ): Observable<any> {
+    const source$ = this._metricSources[label];
+
+    // The current authentication is replayed, only later ones retry
+    const reauthenticated$ = this.isAuthenticated$.pipe(
+      skip(1),
+      filter((isAuthenticated) => isAuthenticated)
+    );
+
+    const local$ = defer(() => {
+      source$.next("sdk");
+
+      const epochs$ = defer(() => this.getInfo()).pipe(
+        switchMap((deviceInfo: DeviceInfo) =>
+          this.brainwaves(
+            label === "signalQuality" ? "rawUnfiltered" : "raw"
+          ).pipe(
+            epochToSamples(),
+            epoch({
+              duration: LOCAL_EPOCH_DURATION,
+              interval: LOCAL_EPOCH_INTERVAL,
+              samplingRate: deviceInfo.samplingRate
+            })
+          )
+        )
+      );
+
+      switch (label) {
+        case "psd":
+          return epochs$.pipe(toPSD());
+        case "powerByBand":
+          return epochs$.pipe(toPowerByBand());
+        case "signalQuality":
+          return epochs$.pipe(toSignalQuality());
+      }
+    });
+
+    const deviceWithFallback$ = device$.pipe(
+      tap(() => source$.next("device")),
+      // Missing characteristics error when subscribing
+      catchError((error) => {
+        this.transport.addLog(
+          `Could not receive ${label} from the device, computing it locally until the next authentication -> ${
+            error?.message ?? error
+          }`
+        );
+        return local$.pipe(takeUntil(reauthenticated$));
+      }),
+      repeat()
+    );
+
+    return this.isAuthenticated$.pipe(
+      distinctUntilChanged(),
+      switchMap((isAuthenticated) =>
+        isAuthenticated ? deviceWithFallback$ : EMPTY
+      ),
+      share()
+    );
+  }
+
+  /**
+   * Reports whether `psd` or `powerByBand` come from the device or are
+   * computed by the SDK from the raw stream
+   */
+  brainwavesSource(
+    label: DerivedBrainwavesLabel
+  ): Observable<BrainwavesSource> {
+    return this._metricSources[label].pipe(distinctUntilChanged());
+  }
+
+  /**
+   * Reports whether `signalQuality` comes from the device or is estimated
+   * by the SDK from the rawUnfiltered stream
+   */
+  signalQualitySource(): Observable<BrainwavesSource> {
+    return this._metricSources.signalQuality.pipe(distinctUntilChanged());
+  }
+
   focus() {
     return this._focus$;
   }
@@ -312,14 +496,14 @@ export class BluetoothClient {
       case "raw":
         return defer(() => this.getInfo()).pipe(
           switchMap((deviceInfo: DeviceInfo) =>
-            this._brainwavesRaw$.pipe(binaryBufferToEpoch(deviceInfo))
+            this._brainwavesRaw$.pipe(samplesToEpoch(deviceInfo))
           )
         );
 
       case "rawUnfiltered":
         return defer(() => this.getInfo()).pipe(
           switchMap((deviceInfo: DeviceInfo) =>
-            this._brainwavesRawUnfiltered$.pipe(binaryBufferToEpoch(deviceInfo))
+            this._brainwavesRawUnfiltered$.pipe(samplesToEpoch(deviceInfo))
           )
         );
 
@@ -336,13 +520,22 @@ export class BluetoothClient {
   }
 
   async addMarker(label: string): Promise<void> {
-    await this.dispatchAction({
+    await this.sendMarker({ label, timestamp: Date.now() });
+  }
+
+  /**
+   * Sends a marker in its own action, as the device expects. Unless a
+   * response is required, the action resolves once written, without waiting
+   * for the device.
+   */
+  async sendMarker(marker: Marker, responseRequired = false): Promise<any> {
+    return await this.dispatchAction({
       action: "marker",
       command: "add",
-      message: {
-        timestamp: Date.now(),
-        label
-      }
+      message: marker,
+      ...(responseRequired
+        ? { responseRequired, responseTimeout: MARKER_RESPONSE_TIMEOUT }
+        : {})
     });
   }
 
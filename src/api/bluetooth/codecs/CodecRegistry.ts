@@ -0,0 +1,94 @@
+import satisfies from "semver/functions/satisfies";
+import valid from "semver/functions/valid";
+
+import { CharacteristicCodec } from "./types";
+
+const ANY = "*";
+
+/**
+ * Picks the codec used to decode a characteristic based on the device's
+ * `apiVersion`. Codecs registered later take precedence, so registering a
+ * codec overrides the built-in ones for the characteristics and versions it
+ * matches.
+ *
+ * ```typescript
+ * import { Neurosity, createCodecRegistry } from "@neurosity/sdk";
+ * import { createBinarySampleCodec } from "@neurosity/sdk";
+ *
+ * const bluetoothCodecs = createCodecRegistry().register(
+ *   createBinarySampleCodec({
+ *     name: "int24",
+ *     apiVersion: ">=2.0.0",
+ *     channelFormat: "int24",
+ *     scale: 0.02235
+ *   })
+ * );
+ *
+ * const neurosity = new Neurosity({ bluetoothTransport, bluetoothCodecs });
+ * ```
+ */
+export class CodecRegistry {
+  private codecs: CharacteristicCodec[] = [];
+
+  constructor(codecs: CharacteristicCodec[] = []) {
+    codecs.forEach((codec) => this.register(codec));
+  }
+
+  public register(codec: CharacteristicCodec): CodecRegistry {
+    this.codecs.unshift(codec);
+    return this;
+  }
+
+  /**
+   * Whether picking or running the codec of a characteristic depends on the
+   * device info: a version specific codec could match, or the codec used for
+   * any API version needs it to decode.
+   */
+  public requiresDeviceInfo(characteristicName: string): boolean {
+    const candidates = this.codecs.filter((codec) =>
+      this.decodes(codec, characteristicName)
+    );
+    const fallbackIndex = candidates.findIndex(
+      (codec) => codec.apiVersion === ANY
+    );
+    // Codecs after the first version-agnostic one are never picked
+    const reachable =
+      fallbackIndex === -1
+        ? candidates
+        : candidates.slice(0, fallbackIndex + 1);
+
+    return reachable.some(
+      (codec) => codec.apiVersion !== ANY || !!codec.requiresDeviceInfo
+    );
+  }
+
+  public resolve(
+    characteristicName: string,
+    apiVersion?: string
+  ): CharacteristicCodec {
+    const codec = this.codecs.find(
+      (codec) =>
+        this.decodes(codec, characteristicName) &&
+        (codec.apiVersion === ANY ||
+          (!!valid(apiVersion) && satisfies(apiVersion, codec.apiVersion)))
+    );
+
+    if (!codec) {
+      throw new Error(
+        `No codec registered for the ${characteristicName} characteristic and API version ${apiVersion}`
+      );
+    }
+
+    return codec;
+  }
+
+  private decodes(
+    codec: CharacteristicCodec,
+    characteristicName: string
+  ): boolean {
+    return (
+      codec.characteristicNames.includes(characteristicName) ||
+      codec.characteristicNames.includes(ANY)
+    );
+  }
+}
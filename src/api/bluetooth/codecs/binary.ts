@@ -0,0 +1,208 @@
+import { OperatorFunction } from "rxjs";
+import { ignoreElements } from "rxjs/operators";
+import { Buffer } from "buffer/index.js"; // not including /index.js causes typescript to uses Node's native Buffer built-in and we want to use this npm package for both node and the browser
+
+import { binaryBufferToSamples } from "../utils/binaryBufferToEpoch";
+import { reassembleSamples } from "../utils/binaryBufferToEpoch";
+import { isPlausibleSample, DecodedBuffer } from "../utils/binaryBufferToEpoch";
+import { Sample } from "../../../types/sample";
+import { CharacteristicCodec, ChannelFormat, CodecContext } from "./types";
+import { BinarySampleCodecOptions } from "./types";
+
+const RAW_CHARACTERISTICS = ["raw", "rawUnfiltered"];
+
+/** Size in bytes of the fields of compact layouts */
+const TimestampSize = 8; // UInt64
+const DeltaSize = 2; // UInt16, microseconds
+const SampleCountSize = 2; // UInt16
+const MarkerSize = 2; // UInt16
+const FrameHeaderSize = TimestampSize + SampleCountSize;
+/** Frames with more samples are considered corrupted */
+const MaxFrameSamples = 1024;
+
+const channelSizes: { [format in ChannelFormat]: number } = {
+  float64: 8,
+  float32: 4,
+  int24: 3
+};
+
+/**
+ * Samples can only be decoded once the channel count is known
+ */
+function withChannelCount(
+  { deviceInfo, characteristicName, addLog }: CodecContext,
+  decode: (channelCount: number) => OperatorFunction<Uint8Array, Sample>
+): OperatorFunction<Uint8Array, Sample> {
+  if (!deviceInfo?.channels) {
+    addLog(
+      `Cannot decode the ${characteristicName} characteristic without the device's channel count`
+    );
+    return ignoreElements();
+  }
+
+  return decode(deviceInfo.channels);
+}
+
+/**
+ * Original layout: UInt64 timestamp, UInt16 marker and a Float64 per channel
+ */
+export const float64SampleCodec: CharacteristicCodec = {
+  name: "float64",
+  characteristicNames: RAW_CHARACTERISTICS,
+  apiVersion: "*",
+  requiresDeviceInfo: true,
+  decode: (context) =>
+    withChannelCount(context, (channelCount) =>
+      binaryBufferToSamples(channelCount, context.addLog)
+    )
+};
+
+/**
+ * Creates a codec for compact raw layouts. Every sample has a UInt16 marker
+ * followed by the channel values, preceded by either an absolute or a delta
+ * timestamp. All values are big endian.
+ *
+ * ```
+ * absolute: | timestamp UInt64 | marker | e1 ... eN | ...
+ * delta:    | timestamp UInt64 | count UInt16 | delta | marker | e1 ... eN | ...
+ * ```
+ *
+ * @param options
+ * @returns Codec to register in a `CodecRegistry`
+ */
+export function createBinarySampleCodec({
+  name,
+  apiVersion,
+  characteristicNames = RAW_CHARACTERISTICS,
+  channelFormat = "float64",
+  scale = 1,
+  timestamps = "absolute"
+}: BinarySampleCodecOptions): CharacteristicCodec {
+  const readChannel = channelReader(channelFormat);
+  const channelSize = channelSizes[channelFormat];
+
+  const readSample = (
+    buffer: Buffer,
+    offset: number,
+    channelCount: number,
+    timestamp: number
+  ): Sample => ({
+    timestamp,
+    marker: buffer.readUInt16BE(offset),
+    data: Array.from(
+      { length: channelCount },
+      (_, channel) =>
+        readChannel(buffer, offset + MarkerSize + channel * channelSize) * scale
+    )
+  });
+
+  const decodeAbsolute = (
+    buffer: Buffer,
+    channelCount: number
+  ): DecodedBuffer => {
+    const sampleLen = TimestampSize + MarkerSize + channelCount * channelSize;
+    const samples: Sample[] = [];
+    let offset = 0;
+    let discardedBytes = 0;
+    let rejectedTimestamp: number;
+
+    while (buffer.length - offset >= sampleLen) {
+      const timestamp = Number(buffer.readBigUInt64BE(offset));
+      const sample = readSample(
+        buffer,
+        offset + TimestampSize,
+        channelCount,
+        timestamp
+      );
+
+      if (isPlausibleSample(sample)) {
+        samples.push(sample);
+        offset += sampleLen;
+      } else {
+        rejectedTimestamp = rejectedTimestamp ?? timestamp;
+        offset += 1;
+        discardedBytes += 1;
+      }
+    }
+
+    return { samples, decodedBytes: offset, discardedBytes, rejectedTimestamp };
+  };
+
+  const decodeFrames = (
+    buffer: Buffer,
+    channelCount: number
+  ): DecodedBuffer => {
+    const sampleLen = DeltaSize + MarkerSize + channelCount * channelSize;
+    const samples: Sample[] = [];
+    let offset = 0;
+    let discardedBytes = 0;
+    let rejectedTimestamp: number;
+
+    while (buffer.length - offset >= FrameHeaderSize) {
+      const baseTimestamp = Number(buffer.readBigUInt64BE(offset));
+      const sampleCount = buffer.readUInt16BE(offset + TimestampSize);
+      const frameLen = FrameHeaderSize + sampleCount * sampleLen;
+      const isValidHeader =
+        sampleCount > 0 &&
+        sampleCount <= MaxFrameSamples &&
+        isPlausibleSample({ timestamp: baseTimestamp, data: [] });
+
+      if (isValidHeader && buffer.length - offset < frameLen) {
+        // Wait for the rest of the frame
+        break;
+      }
+
+      const frame: Sample[] = [];
+      let timestamp = baseTimestamp;
+      for (let i = 0; isValidHeader && i < sampleCount; i++) {
+        const sampleOffset = offset + FrameHeaderSize + i * sampleLen;
+        timestamp += buffer.readUInt16BE(sampleOffset) / 1000;
+        frame.push(
+          readSample(buffer, sampleOffset + DeltaSize, channelCount, timestamp)
+        );
+      }
+
+      if (isValidHeader && frame.every(isPlausibleSample)) {
+        samples.push(...frame);
+        offset += frameLen;
+      } else {
+        rejectedTimestamp = rejectedTimestamp ?? baseTimestamp;
+        offset += 1;
+        discardedBytes += 1;
+      }
+    }
+
+    return { samples, decodedBytes: offset, discardedBytes, rejectedTimestamp };
+  };
+
+  return {
+    name,
+    characteristicNames,
+    apiVersion,
+    requiresDeviceInfo: true,
+    decode: (context) =>
+      withChannelCount(context, (channelCount) =>
+        reassembleSamples(
+          (buffer: Buffer) =>
+            timestamps === "delta"
+              ? decodeFrames(buffer, channelCount)
+              : decodeAbsolute(buffer, channelCount),
+          context.addLog
+        )
+      )
+  };
+}
+
+function channelReader(
+  channelFormat: ChannelFormat
+): (buffer: Buffer, offset: number) => number {
+  switch (channelFormat) {
+    case "float32":
+      return (buffer, offset) => buffer.readFloatBE(offset);
+    case "int24":
+      return (buffer, offset) => buffer.readIntBE(offset, 3);
+    default:
+    case "float64":
+      return (buffer, offset) => buffer.readDoubleBE(offset);
+  }
+}
@@ -0,0 +1,15 @@
+import { CodecRegistry } from "./CodecRegistry";
+import { jsonCodec } from "./json";
+import { float64SampleCodec } from "./binary";
+
+export * from "./types";
+export * from "./CodecRegistry";
+export * from "./json";
+export * from "./binary";
+
+/**
+ * Registry with the built-in codecs, which custom codecs can be added to
+ */
+export function createCodecRegistry(): CodecRegistry {
+  return new CodecRegistry([jsonCodec, float64SampleCodec]);
+}
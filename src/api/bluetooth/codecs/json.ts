@@ -0,0 +1,21 @@
+import { BLUETOOTH_CHUNK_DELIMITER } from "@neurosity/ipk";
+
+import { decodeJSONChunks } from "../utils/decodeJSONChunks";
+import { CharacteristicCodec } from "./types";
+
+/**
+ * Delimited JSON payloads split across notifications, used by every
+ * characteristic other than the raw brainwaves.
+ */
+export const jsonCodec: CharacteristicCodec = {
+  name: "json",
+  characteristicNames: ["*"],
+  apiVersion: "*",
+  decode: ({ textCodec, characteristicName, addLog }) =>
+    decodeJSONChunks({
+      textCodec,
+      characteristicName,
+      delimiter: BLUETOOTH_CHUNK_DELIMITER,
+      addLog
+    })
+};
@@ -0,0 +1,71 @@
+import { OperatorFunction } from "rxjs";
+
+import { DeviceInfo } from "../../../types/deviceInfo";
+import { TextCodec } from "../utils/textCodec";
+
+/**
+ * What a codec needs to know to decode a characteristic
+ */
+export type CodecContext = {
+  characteristicName: string;
+  /**
+   * `null` if the device info could not be read
+   */
+  deviceInfo: DeviceInfo | null;
+  textCodec: TextCodec;
+  addLog: (message: string) => void;
+};
+
+/**
+ * Decodes the notifications of one or more Bluetooth characteristics for the
+ * devices whose `apiVersion` satisfies the codec's semver range.
+ */
+export interface CharacteristicCodec {
+  name: string;
+  /**
+   * Characteristics decoded by this codec, `*` matches every characteristic
+   */
+  characteristicNames: string[];
+  /**
+   * Semver range, e.g. `>=2.0.0`. `*` also matches devices that don't report
+   * an API version.
+   */
+  apiVersion: string;
+  /**
+   * Whether decoding needs the device info, e.g. the channel count of binary
+   * samples. Defaults to false.
+   */
+  requiresDeviceInfo?: boolean;
+  /**
+   * Called for every subscription, so the returned operator can keep state
+   * across notifications.
+   */
+  decode(context: CodecContext): OperatorFunction<Uint8Array, any>;
+}
+
+export type ChannelFormat = "float64" | "float32" | "int24";
+
+export type BinarySampleCodecOptions = {
+  name: string;
+  apiVersion: string;
+  /**
+   * Defaults to `raw` and `rawUnfiltered`
+   */
+  characteristicNames?: string[];
+  /**
+   * Defaults to `float64`
+   */
+  channelFormat?: ChannelFormat;
+  /**
+   * Multiplies every channel value, e.g. to convert ADC counts to microvolts.
+   * Defaults to 1.
+   */
+  scale?: number;
+  /**
+   * `absolute` samples start with a UInt64 timestamp in ms. `delta` samples
+   * are grouped in frames with a UInt64 base timestamp and a UInt16 sample
+   * count, and every sample starts with a UInt16 delta in microseconds from
+   * the previous one. Defaults to `absolute`.
+   */
+  timestamps?: "absolute" | "delta";
+};
@@ -1,5 +1,7 @@
 export * from "./BluetoothClient";
 export * from "./web/WebBluetoothTransport";
 export * from "./react-native/ReactNativeTransport";
+export * from "./simulated/SimulatedTransport";
 export * from "./utils/osHasBluetoothSupport";
 export * from "./types/index";
+export * from "./codecs";
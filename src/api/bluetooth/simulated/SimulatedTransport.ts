@@ -0,0 +1,621 @@
+import { BLUETOOTH_CHUNK_DELIMITER } from "@neurosity/ipk";
+import { Observable, BehaviorSubject, ReplaySubject, Subject } from "rxjs";
+import { from, of, interval, timer, identity, firstValueFrom } from "rxjs";
+import { merge, throwError, NEVER, EMPTY, Subscription } from "rxjs";
+import { switchMap, map, filter, mergeMap, timeout } from "rxjs/operators";
+import { shareReplay, distinctUntilChanged, share, scan } from "rxjs/operators";
+
+import { BluetoothTransport } from "../BluetoothTransport";
+import { create6DigitPin } from "../utils/create6DigitPin";
+import { TextCodec } from "../utils/textCodec";
+import { encode, encodedSampleSize } from "../utils/binaryBufferToEpoch";
+import { decodeJSONChunks } from "../utils/decodeJSONChunks";
+import { ActionOptions, SubscribeOptions } from "../types";
+import { TRANSPORT_TYPE, BLUETOOTH_CONNECTION } from "../types";
+import { DEFAULT_ACTION_RESPONSE_TIMEOUT } from "../constants";
+import { SignalModel, defaultSignalModels, gaussian } from "./signalModels";
+import { lineNoise } from "./signalModels";
+import { DeviceInfo } from "../../../types/deviceInfo";
+import { Sample } from "../../../types/sample";
+import { Action } from "../../../types/actions";
+
+type InjectedDisconnect = {
+  after: number; // ms since the first connection
+  duration?: number; // ms the device stays unavailable
+};
+
+type Options = {
+  autoConnect?: boolean;
+  deviceInfo?: Partial<DeviceInfo>;
+  signalModels?: SignalModel[];
+  unfilteredSignalModels?: SignalModel[];
+  samplesPerPacket?: number;
+  mtu?: number;
+  metricsInterval?: number;
+  connectionDelay?: number;
+  actionResponseDelay?: number;
+  disconnects?: InjectedDisconnect[];
+  onAction?: (action: Action) => any;
+};
+
+type SimulatedPacket = {
+  raw: Sample[];
+  rawUnfiltered: Sample[];
+};
+
+const defaultOptions: Options = {
+  autoConnect: true,
+  samplesPerPacket: 4,
+  mtu: 512,
+  metricsInterval: 250,
+  connectionDelay: 100,
+  actionResponseDelay: 20,
+  disconnects: []
+};
+
+const AUTH_EXPIRES_IN = 3600000; // 1 hour
+const HEARTBEAT_INTERVAL = 30_000; // 30 seconds
+
+/**
+ * @hidden
+ */
+export const SIMULATED_DEVICE_INFO: DeviceInfo = {
+  deviceId: "simulated-crown",
+  deviceNickname: "Crown-SIM",
+  channelNames: ["CP3", "C3", "F5", "PO3", "PO4", "F6", "C4", "CP4"],
+  channels: 8,
+  samplingRate: 256,
+  manufacturer: "Neurosity, Inc",
+  model: "Crown",
+  modelName: "Crown",
+  modelVersion: "3",
+  osVersion: "16.0.0",
+  apiVersion: "1.0.0"
+};
+
+/**
+ * Offline Bluetooth transport that emulates a Crown. Useful for running the
+ * `BluetoothClient` and `Neurosity` end-to-end without a device.
+ *
+ * ```typescript
+ * import { Neurosity, SimulatedTransport } from "@neurosity/sdk";
+ *
+ * const neurosity = new Neurosity({
+ *   bluetoothTransport: new SimulatedTransport(),
+ *   streamingMode: "bluetooth-with-wifi-fallback"
+ * });
+ * ```
+ *
+ * The simulated OS does not advertise the `psd` and `powerByBand`
+ * characteristics.
+ */
+export class SimulatedTransport implements BluetoothTransport {
+  type: TRANSPORT_TYPE = TRANSPORT_TYPE.SIMULATED;
+  textCodec = new TextCodec(this.type);
+  options: Options;
+  deviceInfo: DeviceInfo;
+
+  connection$ = new BehaviorSubject<BLUETOOTH_CONNECTION>(
+    BLUETOOTH_CONNECTION.DISCONNECTED
+  );
+  logs$ = new ReplaySubject<string>(10);
+  onDisconnected$ = new Subject<void>();
+  connectionStream$: Observable<BLUETOOTH_CONNECTION> = this.connection$
+    .asObservable()
+    .pipe(
+      filter((connection) => !!connection),
+      distinctUntilChanged(),
+      shareReplay(1)
+    );
+
+  _isAutoConnectEnabled$ = new ReplaySubject<boolean>(1);
+  _isAuthenticated: boolean = false;
+  _availableAt: number = 0;
+  _scheduledDisconnects: Subscription[] = null;
+  _actionResponses$ = new Subject<Uint8Array>();
+  _packets$: Observable<SimulatedPacket>;
+
+  constructor(options: Options = {}) {
+    this.options = { ...defaultOptions, ...options };
+
+    this.deviceInfo = getSimulatedDeviceInfo(this.options.deviceInfo);
+
+    this._isAutoConnectEnabled$.subscribe((autoConnect) => {
+      this.addLog(`Auto connect: ${autoConnect ? "enabled" : "disabled"}`);
+    });
+
+    this._isAutoConnectEnabled$.next(this.options.autoConnect);
+
+    this.connection$.asObservable().subscribe((connection) => {
+      this.addLog(`connection status is ${connection}`);
+    });
+
+    // A single generator is shared so `raw` and `rawUnfiltered` stay in sync
+    this._packets$ = this.connection$.pipe(
+      switchMap((connection) =>
+        connection === BLUETOOTH_CONNECTION.CONNECTED
+          ? this._generatePackets()
+          : NEVER
+      ),
+      share()
+    );
+  }
+
+  _autoConnect(selectedDevice$: Observable<DeviceInfo>): Observable<void> {
+    return this._isAutoConnectEnabled$.pipe(
+      switchMap((isAutoConnectEnabled) =>
+        isAutoConnectEnabled
+          ? merge(
+              selectedDevice$,
+              this.onDisconnected$.pipe(switchMap(() => selectedDevice$))
+            )
+          : NEVER
+      ),
+      switchMap(async (selectedDevice) => {
+        const { deviceNickname } = selectedDevice ?? {};
+
+        if (this.isConnected()) {
+          this.addLog(
+            `Auto connect: ${deviceNickname} is already connected. Skipping auto connect.`
+          );
+          return;
+        }
+
+        return await this.connect(deviceNickname);
+      })
+    );
+  }
+
+  enableAutoConnect(autoConnect: boolean): void {
+    this._isAutoConnectEnabled$.next(autoConnect);
+  }
+
+  addLog(log: string) {
+    this.logs$.next(log);
+  }
+
+  isConnected() {
+    const connection = this.connection$.getValue();
+    return connection === BLUETOOTH_CONNECTION.CONNECTED;
+  }
+
+  connection(): Observable<BLUETOOTH_CONNECTION> {
+    return this.connectionStream$;
+  }
+
+  async connect(deviceNickname?: string): Promise<void> {
+    if (deviceNickname && deviceNickname !== this.deviceInfo.deviceNickname) {
+      return Promise.reject(
+        new Error(
+          `couldn't find ${deviceNickname}. The simulated device is ${this.deviceInfo.deviceNickname}`
+        )
+      );
+    }
+
+    this.connection$.next(BLUETOOTH_CONNECTION.CONNECTING);
+
+    // Injected disconnects keep the device unavailable for a while
+    const unavailableFor = Math.max(0, this._availableAt - Date.now());
+    await firstValueFrom(
+      timer(this.options.connectionDelay + unavailableFor)
+    );
+
+    this._isAuthenticated = false;
+    this.connection$.next(BLUETOOTH_CONNECTION.CONNECTED);
+    this._scheduleDisconnects();
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.isConnected()) {
+      this._isAuthenticated = false;
+      this.connection$.next(BLUETOOTH_CONNECTION.DISCONNECTED);
+    }
+  }
+
+  /**
+   * Drops the connection the same way the device walking out of range would,
+   * which triggers auto connect if enabled.
+   *
+   * @param duration Time in ms the device stays unavailable
+   */
+  simulateDisconnect(duration: number = 0): void {
+    if (!this.isConnected()) {
+      return;
+    }
+
+    this.addLog(`Simulating disconnect for ${duration}ms`);
+    this._availableAt = Date.now() + duration;
+    this._isAuthenticated = false;
+    this.connection$.next(BLUETOOTH_CONNECTION.DISCONNECTED);
+    this.onDisconnected$.next();
+  }
+
+  _scheduleDisconnects(): void {
+    // Scheduled once, relative to the first connection
+    if (this._scheduledDisconnects) {
+      return;
+    }
+
+    this._scheduledDisconnects = this.options.disconnects.map(
+      ({ after, duration }) =>
+        timer(after).subscribe(() => {
+          this.simulateDisconnect(duration);
+        })
+    );
+  }
+
+  subscribeToCharacteristic({
+    characteristicName,
+    skipJSONDecoding = false
+  }: SubscribeOptions): Observable<any> {
+    const data$ = this._notifications(characteristicName);
+
+    return this.connection$.pipe(
+      switchMap((connection) =>
+        connection === BLUETOOTH_CONNECTION.CONNECTED
+          ? data$.pipe(
+              skipJSONDecoding
+                ? identity // noop
+                : decodeJSONChunks({
+                    textCodec: this.textCodec,
+                    characteristicName,
+                    delimiter: BLUETOOTH_CHUNK_DELIMITER,
+                    addLog: (message: string) => this.addLog(message)
+                  })
+            )
+          : NEVER
+      )
+    );
+  }
+
+  async readCharacteristic(
+    characteristicName: string,
+    parse: boolean = false
+  ): Promise<any> {
+    this.addLog(`Reading characteristic: ${characteristicName}`);
+
+    if (!this.isConnected()) {
+      return Promise.reject(
+        `Error reading characteristic: ${characteristicName}. Not connected.`
+      );
+    }
+
+    const values = {
+      deviceId: this.deviceInfo.deviceId,
+      auth: JSON.stringify([
+        this._isAuthenticated,
+        this._isAuthenticated ? AUTH_EXPIRES_IN : null
+      ])
+    };
+
+    if (!(characteristicName in values)) {
+      return Promise.reject(
+        `Did not find characteristic by the name: ${characteristicName}`
+      );
+    }
+
+    // Round trip through the codec like a real characteristic would
+    const encoded = this.textCodec.encode(values[characteristicName]);
+    const decodedValue = this.textCodec.decode(encoded as Uint8Array);
+    const data = parse ? JSON.parse(decodedValue) : decodedValue;
+
+    this.addLog(
+      `Received read data from ${characteristicName} characteristic: \n${data}`
+    );
+
+    return data;
+  }
+
+  async writeCharacteristic(
+    characteristicName: string,
+    data: string
+  ): Promise<void> {
+    this.addLog(`Writing characteristic: ${characteristicName}`);
+
+    if (!this.isConnected()) {
+      return Promise.reject(
+        new Error(
+          `Error writing characteristic: ${characteristicName}. Not connected.`
+        )
+      );
+    }
+
+    switch (characteristicName) {
+      case "auth":
+        this._isAuthenticated = !!data;
+        return;
+
+      case "actions":
+        this._respondToAction(JSON.parse(data));
+        return;
+
+      default:
+        return Promise.reject(
+          new Error(
+            `Did not find characteristic by the name: ${characteristicName}`
+          )
+        );
+    }
+  }
+
+  _autoToggleActionNotifications(): Observable<any> {
+    // There are no notifications to manage when simulating
+    return EMPTY;
+  }
+
+  async dispatchAction({
+    characteristicName,
+    action
+  }: ActionOptions): Promise<any> {
+    const {
+      responseRequired = false,
+      responseTimeout = DEFAULT_ACTION_RESPONSE_TIMEOUT
+    } = action;
+
+    const actionId: number = create6DigitPin(); // use to later identify and filter response
+    const payload = JSON.stringify({ actionId, ...action }); // add the response id to the action
+
+    this.addLog(`Dispatched action with id ${actionId}`);
+
+    if (!responseRequired || !responseTimeout) {
+      await this.writeCharacteristic(characteristicName, payload);
+      return null;
+    }
+
+    // listen for a response before writing
+    const response = firstValueFrom(
+      this.subscribeToCharacteristic({
+        characteristicName,
+        manageNotifications: false
+      }).pipe(
+        filter((response: any) => response?.actionId === actionId),
+        timeout({
+          first: responseTimeout,
+          with: () =>
+            throwError(
+              () =>
+                new Error(
+                  `Action with id ${actionId} timed out after ${responseTimeout}ms`
+                )
+            )
+        })
+      )
+    );
+
+    // register action by writing
+    await this.writeCharacteristic(characteristicName, payload);
+
+    return await response;
+  }
+
+  _respondToAction(action: Action & { actionId: number }): void {
+    const { actionId, command, responseRequired } = action;
+
+    this.addLog(`Simulated device received action with id ${actionId}`);
+
+    if (!responseRequired) {
+      return;
+    }
+
+    const defaultResponse =
+      command === "timesync" ? { timestamp: Date.now() } : { ok: true };
+
+    const response = {
+      ...(this.options.onAction?.(action) ?? defaultResponse),
+      actionId
+    };
+
+    timer(this.options.actionResponseDelay).subscribe(() => {
+      this._toJSONChunks(response).forEach((chunk) => {
+        this._actionResponses$.next(chunk);
+      });
+    });
+  }
+
+  _toJSONChunks(payload: any): Uint8Array[] {
+    const { mtu } = this.options;
+    const encoded = this.textCodec.encode(
+      JSON.stringify(payload) + BLUETOOTH_CHUNK_DELIMITER
+    ) as Uint8Array;
+
+    const chunks = [];
+    for (let i = 0; i < encoded.length; i += mtu) {
+      chunks.push(encoded.slice(i, i + mtu));
+    }
+    return chunks;
+  }
+
+  _notifications(characteristicName: string): Observable<Uint8Array> {
+    switch (characteristicName) {
+      case "raw":
+      case "rawUnfiltered":
+        return this._binaryNotifications(characteristicName);
+
+      case "actions":
+        return this._actionResponses$.asObservable();
+
+      default:
+        return this._jsonPayloads(characteristicName).pipe(
+          mergeMap((payload) => from(this._toJSONChunks(payload)))
+        );
+    }
+  }
+
+  _binaryNotifications(characteristicName: string): Observable<Uint8Array> {
+    const { channels } = this.deviceInfo;
+    // Notifications only carry whole samples
+    const samplesPerNotification = Math.max(
+      1,
+      Math.floor(this.options.mtu / encodedSampleSize(channels))
+    );
+
+    return this._packets$.pipe(
+      mergeMap((packet: SimulatedPacket) => {
+        const samples: Sample[] = packet[characteristicName];
+        const notifications = [];
+        for (let i = 0; i < samples.length; i += samplesPerNotification) {
+          const slice = samples.slice(i, i + samplesPerNotification);
+          notifications.push(new Uint8Array(encode(slice, channels)));
+        }
+        return from(notifications);
+      })
+    );
+  }
+
+  _generatePackets(): Observable<SimulatedPacket> {
+    const { samplingRate, channelNames } = this.deviceInfo;
+    const { samplesPerPacket, signalModels, unfilteredSignalModels } =
+      this.options;
+    const models = signalModels ?? defaultSignalModels();
+    const unfilteredModels = unfilteredSignalModels ?? [lineNoise()];
+    const packetDuration = (1000 / samplingRate) * samplesPerPacket;
+    const startTime = Date.now();
+
+    return interval(packetDuration).pipe(
+      map((packetIndex: number): SimulatedPacket => {
+        const raw: Sample[] = [];
+        const rawUnfiltered: Sample[] = [];
+
+        for (let i = 0; i < samplesPerPacket; i++) {
+          const elapsed = (packetIndex * samplesPerPacket + i) / samplingRate;
+          const timestamp = startTime + elapsed * 1000;
+          const data = sumModels(models, elapsed, channelNames);
+          const artifacts = sumModels(unfilteredModels, elapsed, channelNames);
+
+          raw.push({ timestamp, data });
+          rawUnfiltered.push({
+            timestamp,
+            data: data.map((value, channel) => value + artifacts[channel])
+          });
+        }
+
+        return { raw, rawUnfiltered };
+      })
+    );
+  }
+
+  _jsonPayloads(characteristicName: string): Observable<any> {
+    const { metricsInterval } = this.options;
+    const { channelNames } = this.deviceInfo;
+    const metrics$ = interval(metricsInterval);
+
+    switch (characteristicName) {
+      case "deviceInfo":
+        return of(this.deviceInfo);
+
+      case "focus":
+      case "calm":
+        return metrics$.pipe(
+          scan(
+            (probability: number) =>
+              Math.min(1, Math.max(0, probability + gaussian() * 0.05)),
+            0.5
+          ),
+          map((probability: number) => ({
+            metric: "awareness",
+            label: characteristicName,
+            probability,
+            timestamp: Date.now()
+          }))
+        );
+
+      case "accelerometer":
+        return metrics$.pipe(
+          map(() => {
+            const time = Date.now() / 1000;
+            const pitch = Math.sin(time * 0.5) * 5;
+            const roll = Math.cos(time * 0.3) * 3;
+            return {
+              acceleration: 1 + gaussian() * 0.01,
+              inclination: pitch,
+              orientation: roll,
+              pitch,
+              roll,
+              x: Math.sin((roll * Math.PI) / 180),
+              y: Math.sin((pitch * Math.PI) / 180),
+              z: 1,
+              timestamp: Date.now()
+            };
+          })
+        );
+
+      case "signalQuality":
+        return metrics$.pipe(
+          map(() =>
+            Object.fromEntries(
+              channelNames.map((channelName) => {
+                const standardDeviation = Math.abs(5 + gaussian());
+                return [
+                  channelName,
+                  {
+                    standardDeviation,
+                    status: standardDeviation < 6 ? "great" : "good"
+                  }
+                ];
+              })
+            )
+          )
+        );
+
+      case "status":
+        return timer(0, HEARTBEAT_INTERVAL).pipe(
+          map(() => ({
+            battery: 100,
+            charging: false,
+            state: "online",
+            sleepMode: false,
+            sleepModeReason: null,
+            lastHeartbeat: Date.now(),
+            ssid: "simulated"
+          }))
+        );
+
+      case "settings":
+        return of({
+          lsl: false,
+          supportAccess: false,
+          activityLogging: false
+        });
+
+      case "wifiNearbyNetworks":
+      case "wifiConnections":
+        return of([]);
+
+      default:
+        // e.g. psd and powerByBand are not advertised by the simulated OS
+        return throwError(
+          () =>
+            new Error(
+              `Did not find characteristic by the name: ${characteristicName}`
+            )
+        );
+    }
+  }
+}
+
+function sumModels(
+  models: SignalModel[],
+  time: number,
+  channelNames: string[]
+): number[] {
+  return models.reduce(
+    (acc: number[], model: SignalModel) =>
+      model
+        .sample(time, channelNames)
+        .map((value, channel) => acc[channel] + value),
+    channelNames.map(() => 0)
+  );
+}
+
+function getSimulatedDeviceInfo(deviceInfo: Partial<DeviceInfo> = {}) {
+  const info = { ...SIMULATED_DEVICE_INFO, ...deviceInfo };
+  const channels = deviceInfo.channels ?? info.channelNames.length;
+
+  // Custom channel counts without names get generic names
+  const channelNames =
+    info.channelNames.length === channels
+      ? info.channelNames
+      : Array.from({ length: channels }, (_, i) => `CH${i + 1}`);
+
+  return { ...info, channels, channelNames };
+}
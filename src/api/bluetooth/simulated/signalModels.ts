@@ -0,0 +1,135 @@
+/**
+ * @hidden
+ *
+ * A signal model returns the amplitude in microvolts for every channel at a
+ * given time in seconds. Models are additive, the simulated transport sums the
+ * output of all the models provided.
+ */
+export type SignalModel = {
+  sample(time: number, channelNames: string[]): number[];
+};
+
+// Frontal channels are the ones picking up most of the eye activity
+const FRONTAL_CHANNELS = ["F5", "F6"];
+
+/**
+ * @hidden
+ *
+ * Box-Muller transform for normally distributed random numbers
+ */
+export function gaussian(): number {
+  const u = 1 - Math.random(); // avoids Math.log(0)
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * @hidden
+ *
+ * Gaussian white noise with `amplitude` as the standard deviation
+ */
+export function noise({ amplitude = 5 } = {}): SignalModel {
+  return {
+    sample: (_, channelNames) => channelNames.map(() => gaussian() * amplitude)
+  };
+}
+
+/**
+ * @hidden
+ *
+ * Sinusoidal line noise. Only present in the `rawUnfiltered` stream by default.
+ */
+export function lineNoise({ frequency = 60, amplitude = 10 } = {}): SignalModel {
+  return {
+    sample: (time, channelNames) =>
+      channelNames.map(
+        () => Math.sin(2 * Math.PI * frequency * time) * amplitude
+      )
+  };
+}
+
+/**
+ * @hidden
+ *
+ * Alpha oscillations that come and go in bursts of `burstDuration` seconds.
+ * Every time a burst ends, the next window has a `burstProbability` chance of
+ * being a burst.
+ */
+export function alphaBursts({
+  frequency = 10,
+  amplitude = 20,
+  burstDuration = 1.5,
+  burstProbability = 0.5
+} = {}): SignalModel {
+  let windowEnd = -1;
+  let isBursting = false;
+
+  return {
+    sample: (time, channelNames) => {
+      if (time >= windowEnd) {
+        windowEnd = time + burstDuration;
+        isBursting = Math.random() < burstProbability;
+      }
+
+      if (!isBursting) {
+        return channelNames.map(() => 0);
+      }
+
+      // Hann envelope to avoid steps at the edges of the burst
+      const progress = 1 - (windowEnd - time) / burstDuration;
+      const envelope = Math.sin(Math.PI * progress) ** 2;
+      const value =
+        Math.sin(2 * Math.PI * frequency * time) * amplitude * envelope;
+
+      return channelNames.map(() => value);
+    }
+  };
+}
+
+/**
+ * @hidden
+ *
+ * Eye blinks at random intervals averaging `ratePerMinute`. Blinks are
+ * strongest on frontal channels and attenuated everywhere else.
+ */
+export function blinks({
+  ratePerMinute = 15,
+  amplitude = 150,
+  duration = 0.3,
+  attenuation = 0.2
+} = {}): SignalModel {
+  const meanInterval = 60 / ratePerMinute;
+  let nextBlink = -1;
+
+  return {
+    sample: (time, channelNames) => {
+      if (nextBlink < 0) {
+        nextBlink = time + Math.random() * meanInterval;
+      }
+
+      if (time > nextBlink + duration) {
+        // exponential inter-blink intervals
+        nextBlink = time - Math.log(1 - Math.random()) * meanInterval;
+      }
+
+      const center = nextBlink + duration / 2;
+      const sigma = duration / 6;
+      const shape = Math.exp(-((time - center) ** 2) / (2 * sigma ** 2));
+
+      return channelNames.map((channelName) =>
+        FRONTAL_CHANNELS.includes(channelName)
+          ? shape * amplitude
+          : shape * amplitude * attenuation
+      );
+    }
+  };
+}
+
+/**
+ * @hidden
+ */
+export const defaultSignalModels = (): SignalModel[] => [
+  noise(),
+  alphaBursts(),
+  blinks()
+];
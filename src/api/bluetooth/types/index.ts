@@ -31,5 +31,6 @@ export enum BLUETOOTH_CONNECTION {
  */
 export enum TRANSPORT_TYPE {
   WEB = "web",
-  REACT_NATIVE = "reactNative"
+  REACT_NATIVE = "reactNative",
+  SIMULATED = "simulated"
 }
@@ -1,4 +1,4 @@
-import { pipe, from, Observable, UnaryFunction } from "rxjs";
+import { pipe, from, defer, Observable, UnaryFunction } from "rxjs";
 import { mergeMap } from "rxjs/operators";
 import { Buffer } from "buffer/index.js"; // not including /index.js causes typescript to uses Node's native Buffer built-in and we want to use this npm package for both node and the browser
 
@@ -16,13 +16,44 @@ const MarkerSize = 2; // UInt16
 const ChannelDataSize = 8; // Double
 /** Size in bytes for the static payload of every sample (Timestamp + Marker) */
 const SampleFixedSize = TimestampSize + MarkerSize;
+/** Plausible range for sample timestamps, used to find sample boundaries */
+const MinTimestamp = Date.UTC(2015, 0, 1);
+const MaxTimestamp = Date.UTC(2100, 0, 1);
+const MinYear = new Date(MinTimestamp).getUTCFullYear();
+const MaxYear = new Date(MaxTimestamp).getUTCFullYear();
+
+type AddLog = (message: string) => void;
+
+/**
+ * @hidden
+ */
+export type DecodedBuffer = {
+  samples: Sample[];
+  decodedBytes: number;
+  discardedBytes: number;
+  /** Timestamp of the first discarded candidate, to spot unsynced clocks */
+  rejectedTimestamp?: number;
+};
 
 /**
  * @hidden
  */
 export function binaryBufferToEpoch(
-  deviceInfo: DeviceInfo
+  deviceInfo: DeviceInfo,
+  addLog?: AddLog
 ): UnaryFunction<Observable<Epoch>, any> {
+  return pipe(
+    binaryBufferToSamples(deviceInfo.channels, addLog),
+    samplesToEpoch(deviceInfo)
+  );
+}
+
+/**
+ * @hidden
+ */
+export function samplesToEpoch(
+  deviceInfo: DeviceInfo
+): UnaryFunction<Observable<Sample>, any> {
   if (!deviceInfo?.samplingRate) {
     console.warn(
       `Didn't receive a sampling rate, defaulting to ${SAMPLING_RATE_FALLBACK}`
@@ -30,7 +61,6 @@ export function binaryBufferToEpoch(
   }
 
   return pipe(
-    binaryBufferToSamples(deviceInfo.channels),
     epoch({
       duration: EPOCH_BUFFER_SIZE,
       interval: EPOCH_BUFFER_SIZE,
@@ -47,14 +77,105 @@ export function binaryBufferToEpoch(
  * @hidden
  */
 export function binaryBufferToSamples(
-  channelCount: number
+  channelCount: number,
+  addLog?: AddLog
 ): UnaryFunction<any, any> {
-  return pipe(
-    mergeMap((arrayBuffer: Uint8Array): Observable<Sample> => {
-      const buffer = Buffer.from(arrayBuffer);
-      const decoded = decode(buffer, channelCount);
-      return from(decoded); // `from` creates an Observable emission from each item (Sample) in the array
-    })
+  return reassembleSamples(
+    (buffer: Buffer) => decodeAvailable(buffer, channelCount),
+    addLog
+  );
+}
+
+/**
+ * @hidden
+ *
+ * Reassembles samples from notifications that may split a sample in two.
+ * Incomplete samples are kept until the next notification, and corrupted
+ * bytes are skipped until a plausible sample is found again. Discarded bytes
+ * are reported via `addLog` instead of erroring the stream, together with the
+ * first rejected timestamp so a device clock that is not synced (e.g. epoch 0)
+ * shows up in the logs instead of a silent stream.
+ *
+ * @param decodeBuffer Decodes the whole samples at the start of a buffer
+ * @param addLog Logger for discarded bytes
+ */
+export function reassembleSamples(
+  decodeBuffer: (buffer: Buffer) => DecodedBuffer,
+  addLog: AddLog = () => {}
+): UnaryFunction<any, any> {
+  return (notifications$: Observable<Uint8Array>): Observable<Sample> =>
+    defer(() => {
+      let remainder = Buffer.alloc(0);
+      let totalDiscardedBytes = 0;
+
+      return notifications$.pipe(
+        mergeMap((arrayBuffer: Uint8Array): Observable<Sample> => {
+          const buffer = Buffer.concat([remainder, Buffer.from(arrayBuffer)]);
+          const { samples, decodedBytes, discardedBytes, rejectedTimestamp } =
+            decodeBuffer(buffer);
+
+          remainder = buffer.slice(decodedBytes);
+
+          if (discardedBytes) {
+            totalDiscardedBytes += discardedBytes;
+            addLog(
+              `Discarded ${discardedBytes} bytes of raw data (${totalDiscardedBytes} bytes in total), the first rejected sample was timestamped ${rejectedTimestamp}. ` +
+                `Samples need finite values and a timestamp from ${MinYear} to ${MaxYear}, check that the device clock is synced.`
+            );
+          }
+
+          return from(samples); // `from` creates an Observable emission from each item (Sample) in the array
+        })
+      );
+    });
+}
+
+/**
+ * @hidden
+ *
+ * Decodes as many whole samples as the buffer holds. Since the encoding
+ * protocol defines no checksum, a sample is considered valid when its
+ * timestamp is within a plausible range and all channel values are finite.
+ * Otherwise the decoder moves one byte forward and tries again.
+ *
+ * @returns Decoded samples, bytes consumed including discarded ones, bytes
+ * discarded and the timestamp of the first discarded candidate. The remaining
+ * bytes are an incomplete sample.
+ */
+export function decodeAvailable(
+  buffer: Buffer,
+  channelCount: number
+): DecodedBuffer {
+  const sampleLen = encodedSampleSize(channelCount);
+  const samples: Sample[] = [];
+  let offset = 0;
+  let discardedBytes = 0;
+  let rejectedTimestamp: number;
+
+  while (buffer.length - offset >= sampleLen) {
+    const sample = decodeSample(buffer, offset, channelCount);
+
+    if (isPlausibleSample(sample)) {
+      samples.push(sample);
+      offset += sampleLen;
+    } else {
+      rejectedTimestamp = rejectedTimestamp ?? sample.timestamp;
+      offset += 1;
+      discardedBytes += 1;
+    }
+  }
+
+  return { samples, decodedBytes: offset, discardedBytes, rejectedTimestamp };
+}
+
+/**
+ * @hidden
+ */
+export function isPlausibleSample(sample: Sample): boolean {
+  return (
+    sample.timestamp >= MinTimestamp &&
+    sample.timestamp <= MaxTimestamp &&
+    sample.data.every((value) => Number.isFinite(value))
   );
 }
 
@@ -89,31 +210,42 @@ export function decode(buffer: Buffer, channelCount: number): Array<Sample> {
   let samples = new Array<Sample>(sampleCount);
 
   for (let i = 0; i < sampleCount; i++) {
-    let offset = i * sampleLen;
-    let channelData = new Array<number>(channelCount);
-    // Read 8 bytes for timestamp & advance offset
-    let ts = buffer.readBigUInt64BE(offset);
-    offset += TimestampSize;
-    // Read 1 byte for marker & advance offset
-    let marker = buffer.readUInt16BE(offset);
-    offset += MarkerSize;
-    // Read 8 bytes for each channel & advance offset
-    for (let i = 0; i < channelCount; i++) {
-      channelData[i] = buffer.readDoubleBE(offset);
-      offset += ChannelDataSize;
-    }
-
-    samples[i] = {
-      timestamp: Number(ts),
-      // TODO: uncomment when ready
-      // marker: marker,
-      data: channelData
-    };
+    samples[i] = decodeSample(buffer, i * sampleLen, channelCount);
   }
 
   return samples;
 }
 
+/**
+ * @hidden
+ *
+ * Decode a single Sample starting at `offset`.
+ */
+function decodeSample(
+  buffer: Buffer,
+  offset: number,
+  channelCount: number
+): Sample {
+  let channelData = new Array<number>(channelCount);
+  // Read 8 bytes for timestamp & advance offset
+  let ts = buffer.readBigUInt64BE(offset);
+  offset += TimestampSize;
+  // Read 2 bytes for marker & advance offset
+  let marker = buffer.readUInt16BE(offset);
+  offset += MarkerSize;
+  // Read 8 bytes for each channel & advance offset
+  for (let i = 0; i < channelCount; i++) {
+    channelData[i] = buffer.readDoubleBE(offset);
+    offset += ChannelDataSize;
+  }
+
+  return {
+    timestamp: Number(ts),
+    marker: marker,
+    data: channelData
+  };
+}
+
 /**
  * @hidden
  *
@@ -135,3 +267,36 @@ export function decode(buffer: Buffer, channelCount: number): Array<Sample> {
 export function encodedSampleSize(channelCount: number): number {
   return SampleFixedSize + channelCount * ChannelDataSize;
 }
+
+/**
+ * @hidden
+ *
+ * Encode a list of Samples using the same binary layout `decode` expects.
+ * Used by the simulated transport to synthesize `raw` notifications.
+ *
+ * @param samples List of Samples to encode.
+ * @param channelCount Number of channels in each sample.
+ *
+ * @returns Buffer with the binary payload.
+ */
+export function encode(samples: Array<Sample>, channelCount: number): Buffer {
+  const sampleLen = encodedSampleSize(channelCount);
+  const buffer = Buffer.alloc(samples.length * sampleLen);
+
+  samples.forEach((sample, i) => {
+    let offset = i * sampleLen;
+    // Write the UInt64 timestamp as two UInt32 words
+    const timestamp = Math.round(sample.timestamp);
+    buffer.writeUInt32BE(Math.floor(timestamp / 2 ** 32), offset);
+    buffer.writeUInt32BE(timestamp % 2 ** 32, offset + 4);
+    offset += TimestampSize;
+    buffer.writeUInt16BE(sample.marker ?? 0, offset);
+    offset += MarkerSize;
+    for (let j = 0; j < channelCount; j++) {
+      buffer.writeDoubleBE(sample.data[j], offset);
+      offset += ChannelDataSize;
+    }
+  });
+
+  return buffer;
+}
@@ -44,6 +44,7 @@ export function csvBufferToSamples(): UnaryFunction<any, any> {
     map(
       ([timestamp, marker, ...data]: CSVSample): Sample => ({
         timestamp,
+        marker,
         data
       })
     )
@@ -1,7 +1,7 @@
 import firebase from "firebase/app";
 
 import { FirebaseApp } from "./FirebaseApp";
-import { createDeviceStore } from "./deviceStore";
+import { createDeviceStore, DeviceStore } from "./deviceStore";
 import { SDKDependencies } from "../../types/options";
 
 const SERVER_TIMESTAMP = firebase.database.ServerValue.TIMESTAMP;
@@ -18,7 +18,7 @@ type FirebaseDeviceOptions = {
 export class FirebaseDevice {
   static serverType = "firebase";
   protected app: firebase.app.App;
-  protected deviceStore;
+  protected deviceStore: DeviceStore;
   public deviceId: string;
 
   constructor({
@@ -32,7 +32,10 @@ export class FirebaseDevice {
 
     this.deviceId = deviceId;
     this.app = firebaseApp.app;
-    this.deviceStore = createDeviceStore(
+    // Allows swapping the realtime database for another backend
+    const createStore = dependencies.createDeviceStore ?? createDeviceStore;
+
+    this.deviceStore = createStore(
       this.app,
       deviceId,
       dependencies.subscriptionManager
@@ -14,6 +14,7 @@ import { DeviceInfo } from "../../types/deviceInfo";
 import { OAuthRemoveResponse } from "../../types/oauth";
 import { Experiment } from "../../types/experiment";
 import { TransferDeviceOptions } from "../../utils/transferDevice";
+import { UserStore } from "./userStore";
 
 const SERVER_TIMESTAMP = firebase.database.ServerValue.TIMESTAMP;
 
@@ -40,7 +41,7 @@ export function createUser(...args) {
 /**
  * @hidden
  */
-export class FirebaseUser {
+export class FirebaseUser implements UserStore {
   public app: firebase.app.App;
   public user: User | null;
 
@@ -558,6 +559,14 @@ export class FirebaseUser {
     );
   }
 
+  /**
+   * Generates a new experiment id locally, nothing is written. Experiments
+   * are managed by the backend from the trainings recorded with their id.
+   */
+  createUserExperimentId(): string {
+    return this.app.database().ref("experiments").push().key;
+  }
+
   async deleteUserExperiment(experimentId: string): Promise<void> {
     if (!experimentId) {
       return Promise.reject(
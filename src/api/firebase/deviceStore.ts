@@ -1,5 +1,9 @@
 import firebase from "firebase/app";
 
+import { Action } from "../../types/actions";
+import { SubscriptionManager } from "../../subscriptions/SubscriptionManager";
+import { PendingSubscription, Subscription } from "../../types/subscriptions";
+
 const SERVER_TIMESTAMP = firebase.database.ServerValue.TIMESTAMP;
 
 export interface IDevice {
@@ -9,6 +13,44 @@ export interface IDevice {
   metrics: any;
 }
 
+/**
+ * @hidden
+ * Backend-agnostic interface the `FirebaseDevice` talks to. The default
+ * implementation is backed by the Firebase realtime database.
+ */
+export interface DeviceStore {
+  set(namespace: string, payload: any): Promise<any>;
+  once(namespace: string, eventType?: any): Promise<any>;
+  update(namespace: string, payload: any): Promise<any>;
+  lastOfChildValue(namespace: string, key: string, value: any): Promise<any>;
+  onNamespace(namespace: string, callback: Function): Function;
+  offNamespace(namespace: string, listener: Function): void;
+  dispatchAction(action: Action): Promise<any>;
+  nextMetric(
+    metricName: string,
+    metricValue: { [label: string]: any }
+  ): Promise<void>;
+  onMetric(subscription: PendingSubscription, callback: Function): Function;
+  subscribeToMetric(
+    subscription: PendingSubscription & { serverType: string }
+  ): Subscription;
+  unsubscribeFromMetric(subscription: Subscription): void;
+  removeMetricListener(
+    subscription: PendingSubscription,
+    listener: Function
+  ): void;
+  disconnect(): void;
+}
+
+/**
+ * @hidden
+ */
+export type CreateDeviceStore = (
+  app: firebase.app.App,
+  deviceId: string,
+  subscriptionManager: SubscriptionManager
+) => DeviceStore;
+
 /**
  * @hidden
  */
@@ -16,7 +58,7 @@ export const createDeviceStore = (
   app,
   deviceId,
   subscriptionManager
-) => {
+): DeviceStore => {
   const deviceRef = app.database().ref(`devices/${deviceId}`);
   const clientId = deviceRef.child("subscriptions").push().key;
   const clientRef = deviceRef.child(`clients/${clientId}`);
@@ -0,0 +1,386 @@
+import { Action } from "../../types/actions";
+import { DeviceStore, CreateDeviceStore } from "./deviceStore";
+
+type Listener = (value: any) => void;
+
+type ActionHandler = (action: Action, deviceId: string) => any;
+
+type InMemoryDatabaseOptions = {
+  initialState?: { [key: string]: any };
+  connected?: boolean;
+  onAction?: ActionHandler;
+  actionResponseDelay?: number;
+};
+
+const CONNECTED_PATH = ".info/connected";
+
+const normalize = (path: string): string =>
+  path.split("/").filter(Boolean).join("/");
+
+const isAncestorOrSelf = (ancestor: string, path: string): boolean =>
+  ancestor === "" || path === ancestor || path.startsWith(`${ancestor}/`);
+
+const clone = (value: any): any =>
+  value === undefined ? null : JSON.parse(JSON.stringify(value));
+
+/**
+ * @hidden
+ * Mirrors the subset of the realtime database the device store relies on:
+ * path-based values, `value` listeners, push keys, `onDisconnect().remove()`
+ * and `.info/connected`.
+ */
+export class InMemoryDatabase {
+  private root: { [key: string]: any };
+  private listeners = new Map<string, Set<Listener>>();
+  private onDisconnectRemovals = new Set<string>();
+  private connected: boolean;
+  private pushCount = 0;
+  public options: InMemoryDatabaseOptions;
+
+  constructor(options: InMemoryDatabaseOptions = {}) {
+    this.options = {
+      actionResponseDelay: 0,
+      ...options
+    };
+    this.root = clone(options.initialState ?? {});
+    this.connected = options.connected ?? true;
+  }
+
+  public get(path: string): any {
+    const keys = normalize(path).split("/").filter(Boolean);
+
+    if (normalize(path) === CONNECTED_PATH) {
+      return this.connected;
+    }
+
+    const value = keys.reduce(
+      (node, key) =>
+        node !== null && typeof node === "object" ? node[key] : undefined,
+      this.root
+    );
+
+    return clone(value);
+  }
+
+  public set(path: string, value: any): void {
+    this.write(path, value);
+    this.notify(path);
+  }
+
+  public update(path: string, values: { [childPath: string]: any }): void {
+    Object.entries(values ?? {}).forEach(([childPath, value]) => {
+      this.write(`${path}/${childPath}`, value);
+    });
+    this.notify(path);
+  }
+
+  public remove(path: string): void {
+    this.set(path, null);
+  }
+
+  /**
+   * Generates a unique, chronologically ordered key like Firebase's push ids
+   */
+  public push(path: string, value?: any): string {
+    const key = `${Date.now().toString(36)}-${(this.pushCount++)
+      .toString(36)
+      .padStart(4, "0")}`;
+
+    if (value !== undefined) {
+      this.set(`${path}/${key}`, value);
+    }
+
+    return key;
+  }
+
+  public on(path: string, listener: Listener): Listener {
+    const normalizedPath = normalize(path);
+
+    if (!this.listeners.has(normalizedPath)) {
+      this.listeners.set(normalizedPath, new Set());
+    }
+
+    this.listeners.get(normalizedPath).add(listener);
+
+    // Like Firebase, value listeners get the current value asynchronously,
+    // shared streams would otherwise miss it for all but the first subscriber
+    Promise.resolve().then(() => {
+      if (this.listeners.get(normalizedPath)?.has(listener)) {
+        listener(this.get(normalizedPath));
+      }
+    });
+
+    return listener;
+  }
+
+  public off(path: string, listener?: Listener): void {
+    const normalizedPath = normalize(path);
+
+    if (!listener) {
+      this.listeners.delete(normalizedPath);
+      return;
+    }
+
+    this.listeners.get(normalizedPath)?.delete(listener);
+  }
+
+  public onDisconnectRemove(path: string): void {
+    this.onDisconnectRemovals.add(normalize(path));
+  }
+
+  public isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Simulates losing and regaining the connection to the database.
+   * Paths registered with `onDisconnectRemove` are removed when going offline.
+   */
+  public setConnected(connected: boolean): void {
+    if (connected === this.connected) {
+      return;
+    }
+
+    this.connected = connected;
+
+    if (!connected) {
+      const removals = [...this.onDisconnectRemovals];
+      this.onDisconnectRemovals.clear();
+      removals.forEach((path) => {
+        this.remove(path);
+      });
+    }
+
+    this.notify(CONNECTED_PATH);
+  }
+
+  /**
+   * Publishes a metric from the device side, merging labels like the OS does.
+   */
+  public nextMetric(
+    deviceId: string,
+    metricName: string,
+    metricValue: { [label: string]: any }
+  ): void {
+    this.update(`devices/${deviceId}/metrics/${metricName}`, metricValue);
+  }
+
+  private write(path: string, value: any): void {
+    const keys = normalize(path).split("/").filter(Boolean);
+
+    if (!keys.length) {
+      this.root = clone(value) ?? {};
+      return;
+    }
+
+    const parentKeys = keys.slice(0, -1);
+    const lastKey = keys[keys.length - 1];
+    const parent = parentKeys.reduce((node, key) => {
+      if (node[key] === null || typeof node[key] !== "object") {
+        node[key] = {};
+      }
+      return node[key];
+    }, this.root);
+
+    if (value === null || value === undefined) {
+      Reflect.deleteProperty(parent, lastKey);
+    } else {
+      parent[lastKey] = clone(value);
+    }
+  }
+
+  private notify(path: string): void {
+    const changedPath = normalize(path);
+
+    [...this.listeners.entries()]
+      .filter(
+        ([listenerPath]) =>
+          isAncestorOrSelf(listenerPath, changedPath) ||
+          isAncestorOrSelf(changedPath, listenerPath)
+      )
+      .forEach(([listenerPath, listeners]) => {
+        const value = this.get(listenerPath);
+        [...listeners].forEach((listener) => {
+          listener(value);
+        });
+      });
+  }
+}
+
+/**
+ * @hidden
+ * Responds to timesync requests so the `Timesync` class works offline
+ */
+const defaultActionHandler: ActionHandler = (action) =>
+  action.command === "timesync" ? { timestamp: Date.now() } : { ok: true };
+
+/**
+ * @hidden
+ * Creates a `createDeviceStore` factory backed by an `InMemoryDatabase`.
+ * Pass it to the SDK options together with `createInMemoryUserStore` to run
+ * the cloud client without Firebase.
+ *
+ * ```typescript
+ * const database = new InMemoryDatabase();
+ * const neurosity = new Neurosity({
+ *   createUserStore: createInMemoryUserStore(database, { accounts }),
+ *   createDeviceStore: createInMemoryDeviceStore(database)
+ * });
+ * ```
+ */
+export const createInMemoryDeviceStore =
+  (database: InMemoryDatabase): CreateDeviceStore =>
+  (_, deviceId, subscriptionManager): DeviceStore => {
+    const devicePath = `devices/${deviceId}`;
+    const clientId = database.push(`${devicePath}/subscriptions`);
+    const clientPath = `${devicePath}/clients/${clientId}`;
+    let listenersToRemove = [];
+
+    const pathOf = (namespace: string) => `${devicePath}/${namespace}`;
+
+    const on = (namespace: string, callback: Listener): Listener => {
+      const listener = database.on(pathOf(namespace), callback);
+
+      listenersToRemove.push(() => {
+        database.off(pathOf(namespace), listener);
+      });
+
+      return listener;
+    };
+
+    const metricPath = ({ atomic, metric, labels }) =>
+      atomic ? `metrics/${metric}` : `metrics/${metric}/${labels[0]}`;
+
+    const respondToAction = (action: Action, actionPath: string) => {
+      const { onAction, actionResponseDelay } = database.options;
+      const handler = onAction ?? defaultActionHandler;
+
+      setTimeout(async () => {
+        const response = await handler(action, deviceId);
+        database.set(pathOf(`${actionPath}/response`), response ?? {});
+      }, actionResponseDelay);
+    };
+
+    // Add client connections and subscriptions and remove them when offline
+    const connectedListener = database.on(CONNECTED_PATH, (connected) => {
+      if (!connected) {
+        return;
+      }
+
+      database.onDisconnectRemove(clientPath);
+      database.set(clientPath, Date.now());
+
+      // Re-subscribe when connection is lost and regained
+      database.update(pathOf("subscriptions"), subscriptionManager.get());
+      subscriptionManager.toList().forEach((subscription) => {
+        database.onDisconnectRemove(pathOf(`subscriptions/${subscription.id}`));
+      });
+    });
+
+    listenersToRemove.push(() => {
+      database.off(CONNECTED_PATH, connectedListener);
+    });
+
+    return {
+      set: async (namespace, payload) => {
+        database.set(pathOf(namespace), payload);
+      },
+      once: async (namespace) => {
+        return database.get(pathOf(namespace));
+      },
+      update: async (namespace, payload) => {
+        database.update(pathOf(namespace), payload);
+      },
+      lastOfChildValue: async (namespace, key, value) => {
+        const children = Object.values(database.get(pathOf(namespace)) ?? {});
+        const matches = children.filter((child) => child?.[key] === value);
+        return matches.length ? matches[matches.length - 1] : null;
+      },
+      onNamespace: (namespace: string, callback: Function): Function => {
+        return on(namespace, (data: any) => {
+          callback(data);
+        });
+      },
+      offNamespace: (namespace: string, listener: Function): void => {
+        database.off(pathOf(namespace), listener as Listener);
+      },
+      dispatchAction: async (action) => {
+        const actionId = database.push(pathOf("actions"), action);
+        const actionPath = `actions/${actionId}`;
+
+        database.onDisconnectRemove(pathOf(actionPath));
+
+        if (!action.responseRequired) {
+          return actionId;
+        }
+
+        const responseTimeout = action.responseTimeout || 600000; // defaults to 10 minutes
+
+        return new Promise((resolve, reject) => {
+          const timeoutId = setTimeout(() => {
+            database.off(pathOf(`${actionPath}/response`), listener);
+            database.remove(pathOf(actionPath));
+            reject(`Action response timed out in ${responseTimeout}ms.`);
+          }, responseTimeout);
+
+          const listener = database.on(
+            pathOf(`${actionPath}/response`),
+            (response) => {
+              if (response === null) {
+                return;
+              }
+
+              clearTimeout(timeoutId);
+              database.off(pathOf(`${actionPath}/response`), listener);
+              resolve(response);
+            }
+          );
+
+          respondToAction(action, actionPath);
+        });
+      },
+      nextMetric: async (metricName, metricValue) => {
+        database.set(pathOf(`metrics/${metricName}`), metricValue);
+      },
+      onMetric: (subscription, callback: Function) => {
+        return on(metricPath(subscription), (data) => {
+          if (data !== null) {
+            callback(data);
+          }
+        });
+      },
+      subscribeToMetric: (subscription) => {
+        const id = database.push(pathOf("subscriptions"));
+        const childPath = `subscriptions/${id}`;
+        const subscriptionCreated = {
+          id,
+          clientId,
+          ...subscription
+        };
+
+        database.set(pathOf(childPath), subscriptionCreated);
+        database.onDisconnectRemove(pathOf(childPath));
+
+        return subscriptionCreated;
+      },
+      unsubscribeFromMetric: (subscription) => {
+        database.remove(pathOf(`subscriptions/${subscription.id}`));
+      },
+      removeMetricListener: (subscription, listener: Function) => {
+        database.off(pathOf(metricPath(subscription)), listener as Listener);
+      },
+      disconnect: () => {
+        database.remove(clientPath);
+        listenersToRemove.forEach((removeListener) => {
+          removeListener();
+        });
+        listenersToRemove = [];
+        subscriptionManager
+          .toList()
+          .filter((subscription) => subscription.clientId === clientId)
+          .forEach((subscription) => {
+            database.remove(pathOf(`subscriptions/${subscription.id}`));
+          });
+      }
+    };
+  };
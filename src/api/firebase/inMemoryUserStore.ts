@@ -0,0 +1,316 @@
+import { Observable, BehaviorSubject, fromEventPattern } from "rxjs";
+import { of, EMPTY } from "rxjs";
+import { map, switchMap } from "rxjs/operators";
+import { User } from "@firebase/auth-types";
+
+import { InMemoryDatabase } from "./inMemoryDeviceStore";
+import { UserStore, CreateUserStore } from "./userStore";
+import { Credentials } from "../../types/credentials";
+import { UserDevices, UserClaims } from "../../types/user";
+import { DeviceInfo } from "../../types/deviceInfo";
+import { Experiment } from "../../types/experiment";
+
+/**
+ * @hidden
+ */
+export type InMemoryAccount = {
+  uid: string;
+  email?: string;
+  password?: string;
+  claims?: UserClaims;
+};
+
+type InMemoryUserStoreOptions = {
+  accounts?: InMemoryAccount[];
+};
+
+const toUser = (account: InMemoryAccount): User =>
+  ({
+    uid: account.uid,
+    email: account.email ?? null,
+    getIdToken: async () => `${account.uid}-id-token`,
+    getIdTokenResult: async () => ({ claims: account.claims ?? {} })
+  }) as any;
+
+/**
+ * @hidden
+ * Creates a `createUserStore` factory that authenticates against the given
+ * accounts and resolves their devices from an `InMemoryDatabase`, using the
+ * same paths as the realtime database. Combined with
+ * `createInMemoryDeviceStore`, the cloud client runs without Firebase.
+ *
+ * ```typescript
+ * const database = new InMemoryDatabase({
+ *   initialState: {
+ *     users: { [uid]: { devices: { [deviceId]: { claimedOn: 0 } } } },
+ *     devices: { [deviceId]: { info: { deviceId }, status: { claimedBy: uid } } }
+ *   }
+ * });
+ * const neurosity = new Neurosity({
+ *   createUserStore: createInMemoryUserStore(database, {
+ *     accounts: [{ uid, email, password }]
+ *   }),
+ *   createDeviceStore: createInMemoryDeviceStore(database)
+ * });
+ * ```
+ */
+export const createInMemoryUserStore =
+  (
+    database: InMemoryDatabase,
+    options: InMemoryUserStoreOptions = {}
+  ): CreateUserStore =>
+  (): UserStore => {
+    const accounts = [...(options.accounts ?? [])];
+    const customTokens = new Map<string, string>();
+    const authState = new BehaviorSubject<User | null>(null);
+
+    const userDevicesPath = () => `users/${authState.value?.uid}/devices`;
+    const claimedByPath = (deviceId: string) =>
+      `devices/${deviceId}/status/claimedBy`;
+    const deviceInfoPath = (deviceId: string) => `devices/${deviceId}/info`;
+
+    const findAccount = (uid: string) =>
+      accounts.find((account) => account.uid === uid);
+
+    const signIn = (account: InMemoryAccount) => {
+      const user = toUser(account);
+      authState.next(user);
+      return { user };
+    };
+
+    const requireLogin = (): Promise<never> | null =>
+      authState.value ? null : Promise.reject(`Please login.`);
+
+    const onValue = (path: string): Observable<any> =>
+      fromEventPattern(
+        (handler) => database.on(path, handler),
+        (handler) => database.off(path, handler)
+      );
+
+    const userDevicesToDeviceInfoList = (
+      userDevices: UserDevices | null
+    ): DeviceInfo[] => {
+      const devices: DeviceInfo[] = Object.keys(userDevices ?? {})
+        .map((deviceId) => database.get(deviceInfoPath(deviceId)))
+        .filter((device) => !!device);
+
+      return devices.sort(
+        (a, b) =>
+          userDevices[a.deviceId].claimedOn - userDevices[b.deviceId].claimedOn
+      );
+    };
+
+    const store: UserStore = {
+      get user() {
+        return authState.value;
+      },
+      onAuthStateChanged: () => authState.asObservable(),
+      onUserClaimsChange: () =>
+        authState.pipe(
+          switchMap((user) =>
+            user ? of(findAccount(user.uid)?.claims ?? {}) : EMPTY
+          )
+        ),
+      login: async (credentials: Credentials) => {
+        if ("customToken" in credentials) {
+          const account = findAccount(
+            customTokens.get(credentials.customToken)
+          );
+
+          return account
+            ? signIn(account)
+            : Promise.reject(new Error(`Invalid custom token.`));
+        }
+
+        if ("email" in credentials && "password" in credentials) {
+          const account = accounts.find(
+            ({ email, password }) =>
+              email === credentials.email && password === credentials.password
+          );
+
+          return account
+            ? signIn(account)
+            : Promise.reject(new Error(`Invalid email or password.`));
+        }
+
+        throw new Error(`Either {email,password} or {customToken} is required`);
+      },
+      logout: async () => {
+        authState.next(null);
+      },
+      createAccount: async ({ email, password }) => {
+        if (accounts.some((account) => account.email === email)) {
+          return Promise.reject(
+            new Error(`The email address is already in use.`)
+          );
+        }
+
+        const account = { uid: database.push("users"), email, password };
+        accounts.push(account);
+        return signIn(account);
+      },
+      deleteAccount: async () => {
+        const user = authState.value;
+
+        if (!user) {
+          return Promise.reject(
+            new Error(
+              `You are trying to delete an account that is not authenticated.`
+            )
+          );
+        }
+
+        const devices = await store.getDevices();
+        await Promise.all(
+          devices.map((device) => store.removeDevice(device.deviceId))
+        );
+
+        accounts.splice(accounts.indexOf(findAccount(user.uid)), 1);
+        authState.next(null);
+      },
+      getDevices: async () => {
+        const notLoggedIn = requireLogin();
+
+        if (notLoggedIn) {
+          return notLoggedIn;
+        }
+
+        return userDevicesToDeviceInfoList(database.get(userDevicesPath()));
+      },
+      addDevice: async (deviceId: string) => {
+        const notLoggedIn = requireLogin();
+
+        if (notLoggedIn) {
+          return notLoggedIn;
+        }
+
+        if (database.get(`${userDevicesPath()}/${deviceId}`)) {
+          return Promise.reject(`The device is already added to this account.`);
+        }
+
+        // hex string of 32 characters
+        if (!/^[0-9A-Fa-f]{32}$/.test(deviceId ?? "")) {
+          return Promise.reject("The device id is incorrectly formatted.");
+        }
+
+        if (database.get(claimedByPath(deviceId)) !== null) {
+          return Promise.reject("The device has already been claimed.");
+        }
+
+        database.update("", {
+          [claimedByPath(deviceId)]: authState.value.uid,
+          [`${userDevicesPath()}/${deviceId}`]: { claimedOn: Date.now() }
+        });
+      },
+      removeDevice: async (deviceId: string) => {
+        const notLoggedIn = requireLogin();
+
+        if (notLoggedIn) {
+          return notLoggedIn;
+        }
+
+        database.remove(claimedByPath(deviceId));
+        database.remove(`${userDevicesPath()}/${deviceId}`);
+      },
+      transferDevice: async (transferOptions) => {
+        if (!authState.value) {
+          return Promise.reject(new Error(`transferDevice: auth is required.`));
+        }
+
+        const recipient = accounts.find((account) =>
+          "recipientsUserId" in transferOptions
+            ? account.uid === transferOptions.recipientsUserId
+            : account.email === transferOptions.recipientsEmail
+        );
+
+        if (!recipient) {
+          return Promise.reject(
+            new Error(`transferDevice: the recipient was not found.`)
+          );
+        }
+
+        const { deviceId } = transferOptions;
+
+        if (!database.get(`${userDevicesPath()}/${deviceId}`)) {
+          return Promise.reject(
+            new Error(`transferDevice: the device is not in this account.`)
+          );
+        }
+
+        database.update("", {
+          [claimedByPath(deviceId)]: recipient.uid,
+          [`${userDevicesPath()}/${deviceId}`]: null,
+          [`users/${recipient.uid}/devices/${deviceId}`]: {
+            claimedOn: Date.now()
+          }
+        });
+      },
+      onUserDevicesChange: () =>
+        authState.pipe(
+          switchMap((user) =>
+            user
+              ? onValue(userDevicesPath()).pipe(
+                  map(userDevicesToDeviceInfoList)
+                )
+              : EMPTY
+          )
+        ),
+      hasDevicePermission: async (deviceId: string) =>
+        database.get(deviceInfoPath(deviceId)) !== null,
+      createCustomToken: async () => {
+        const notLoggedIn = requireLogin();
+
+        if (notLoggedIn) {
+          return notLoggedIn;
+        }
+
+        const customToken = database.push("customTokens");
+        customTokens.set(customToken, authState.value.uid);
+        return { customToken };
+      },
+      removeOAuthAccess: async () => {
+        if (!authState.value) {
+          return Promise.reject(
+            `OAuth access can only be removed while logged in via OAuth.`
+          );
+        }
+
+        authState.next(null);
+        return { ok: true };
+      },
+      onUserExperiments: () =>
+        authState.pipe(
+          switchMap((user) =>
+            user
+              ? onValue("experiments").pipe(
+                  map((experiments): Experiment[] =>
+                    Object.entries(experiments ?? {})
+                      .map(([id, value]: any) => ({
+                        id: value?.id ?? id,
+                        ...value
+                      }))
+                      .filter((experiment) => experiment.userId === user.uid)
+                      .sort(
+                        (a, b) =>
+                          new Date(b?.timestamp).getTime() -
+                          new Date(a?.timestamp).getTime()
+                      )
+                  )
+                )
+              : EMPTY
+          )
+        ),
+      createUserExperimentId: () => database.push("experiments"),
+      deleteUserExperiment: async (experimentId: string) => {
+        if (!experimentId) {
+          return Promise.reject(
+            `deleteUserExperiment: please provide an experiment id`
+          );
+        }
+
+        database.remove(`experiments/${experimentId}`);
+      }
+    };
+
+    return store;
+  };
@@ -0,0 +1,43 @@
+import { Observable } from "rxjs";
+import { User } from "@firebase/auth-types";
+
+import { FirebaseApp } from "./FirebaseApp";
+import { Credentials, CustomToken } from "../../types/credentials";
+import { EmailAndPassword } from "../../types/credentials";
+import { DeviceInfo } from "../../types/deviceInfo";
+import { UserClaims } from "../../types/user";
+import { OAuthRemoveResponse } from "../../types/oauth";
+import { Experiment } from "../../types/experiment";
+import { TransferDeviceOptions } from "../../utils/transferDevice";
+
+/**
+ * @hidden
+ * Backend-agnostic interface the `CloudClient` uses to authenticate and to
+ * resolve the devices of the user. The default implementation is
+ * `FirebaseUser`.
+ */
+export interface UserStore {
+  user: User | null;
+  onAuthStateChanged(): Observable<User | null>;
+  onUserClaimsChange(): Observable<UserClaims>;
+  login(credentials: Credentials): Promise<any>;
+  logout(): Promise<void>;
+  createAccount(credentials: EmailAndPassword): Promise<any>;
+  deleteAccount(): Promise<void>;
+  getDevices(): Promise<DeviceInfo[]>;
+  addDevice(deviceId: string): Promise<void>;
+  removeDevice(deviceId: string): Promise<void>;
+  transferDevice(options: TransferDeviceOptions): Promise<void>;
+  onUserDevicesChange(): Observable<DeviceInfo[]>;
+  hasDevicePermission(deviceId: string): Promise<boolean>;
+  createCustomToken(): Promise<CustomToken>;
+  removeOAuthAccess(): Promise<OAuthRemoveResponse>;
+  onUserExperiments(): Observable<Experiment[]>;
+  createUserExperimentId(): string;
+  deleteUserExperiment(experimentId: string): Promise<void>;
+}
+
+/**
+ * @hidden
+ */
+export type CreateUserStore = (firebaseApp: FirebaseApp) => UserStore;
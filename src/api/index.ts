@@ -4,6 +4,7 @@ import { filter, shareReplay, share, switchMap } from "rxjs/operators";
 
 import { FirebaseApp, FirebaseUser, FirebaseDevice } from "./firebase";
 import { UserWithMetadata } from "./firebase";
+import { UserStore } from "./firebase/userStore";
 import { Timesync } from "../timesync";
 import { SubscriptionManager } from "../subscriptions/SubscriptionManager";
 import { heartbeatAwareStatus } from "../utils/heartbeat";
@@ -31,6 +32,15 @@ export {
   __firebase
 } from "./firebase";
 
+/**
+ * @hidden
+ * Lets device clients share the app and authenticated user of their parent
+ */
+type CloudClientDependencies = {
+  firebaseApp: FirebaseApp;
+  firebaseUser: UserStore;
+};
+
 /**
  * @hidden
  */
@@ -39,7 +49,7 @@ export class CloudClient implements Client {
   public userClaims;
   protected options: SDKOptions;
   protected firebaseApp: FirebaseApp;
-  protected firebaseUser: FirebaseUser;
+  protected firebaseUser: UserStore;
   protected firebaseDevice: FirebaseDevice;
   protected timesync: Timesync;
   protected subscriptionManager: SubscriptionManager;
@@ -51,11 +61,22 @@ export class CloudClient implements Client {
    */
   private _selectedDevice = new ReplaySubject<DeviceInfo | null | undefined>(1);
 
-  constructor(options: SDKOptions) {
+  /**
+   * @internal
+   */
+  private isDeviceClient: boolean;
+
+  constructor(options: SDKOptions, dependencies?: CloudClientDependencies) {
     this.options = options;
+    this.isDeviceClient = !!dependencies;
     this.subscriptionManager = new SubscriptionManager();
-    this.firebaseApp = new FirebaseApp(options);
-    this.firebaseUser = new FirebaseUser(this.firebaseApp);
+    this.firebaseApp = dependencies?.firebaseApp ?? new FirebaseApp(options);
+    // Allows swapping authentication and device lookup for another backend
+    const createUserStore =
+      options.createUserStore ??
+      ((firebaseApp: FirebaseApp) => new FirebaseUser(firebaseApp));
+    this.firebaseUser =
+      dependencies?.firebaseUser ?? createUserStore(this.firebaseApp);
 
     this._selectedDevice.next(undefined);
 
@@ -75,6 +96,24 @@ export class CloudClient implements Client {
       this.userClaims = userClaims;
     });
 
+    // Device clients select their device as soon as the shared user logs in
+    if (this.isDeviceClient) {
+      this.firebaseUser
+        .onAuthStateChanged()
+        .pipe(filter((user) => !!user))
+        .subscribe(async () => {
+          if (await this.didSelectDevice()) {
+            return;
+          }
+
+          await this.setAutoSelectedDevice().catch((error) => {
+            console.warn(
+              `Could not select device ${this.options.deviceId}: ${error}`
+            );
+          });
+        });
+    }
+
     this.onDeviceChange().subscribe((device) => {
       if (this.firebaseDevice) {
         this.firebaseDevice.disconnect();
@@ -88,7 +127,8 @@ export class CloudClient implements Client {
         deviceId: device.deviceId,
         firebaseApp: this.firebaseApp,
         dependencies: {
-          subscriptionManager: this.subscriptionManager
+          subscriptionManager: this.subscriptionManager,
+          createDeviceStore: this.options.createDeviceStore
         }
       });
 
@@ -146,9 +186,33 @@ export class CloudClient implements Client {
   }
 
   public async disconnect(): Promise<any> {
+    // The app is shared with the parent client, only close this device
+    if (this.isDeviceClient) {
+      return this.firebaseDevice?.disconnect();
+    }
+
     return this.firebaseApp.disconnect();
   }
 
+  /**
+   * Creates a client for another device of the same user. It shares the app
+   * and authentication, but has its own selected device, subscriptions and
+   * timesync.
+   */
+  public forDevice(deviceId: string): CloudClient {
+    return new CloudClient(
+      {
+        ...this.options,
+        deviceId,
+        autoSelectDevice: false
+      },
+      {
+        firebaseApp: this.firebaseApp,
+        firebaseUser: this.firebaseUser
+      }
+    );
+  }
+
   public async getInfo(): Promise<any> {
     return await this.firebaseDevice.getInfo();
   }
@@ -168,6 +232,13 @@ export class CloudClient implements Client {
   }
 
   public async logout(): Promise<any> {
+    // Logging out the shared user would end the session of every client
+    if (this.isDeviceClient) {
+      return Promise.reject(
+        `Device handles share the session of the instance that created them, call logout() on that instance instead.`
+      );
+    }
+
     if (this.firebaseDevice) {
       this.firebaseDevice.disconnect();
     }
@@ -369,6 +440,10 @@ export class CloudClient implements Client {
     return this.firebaseUser.onUserExperiments();
   }
 
+  public createUserExperimentId(): string {
+    return this.firebaseUser.createUserExperimentId();
+  }
+
   public deleteUserExperiment(experimentId: string): Promise<void> {
     return this.firebaseUser.deleteUserExperiment(experimentId);
   }
@@ -0,0 +1,183 @@
+import { Observable, pipe } from "rxjs";
+import { map, reduce } from "rxjs/operators";
+
+import { BandName, PowerByBand } from "../types/brainwaves";
+import { Baseline, CalibrationMetric } from "../types/calibration";
+import { RunningStats } from "../types/calibration";
+import * as errors from "../utils/errors";
+
+/**
+ * @hidden
+ */
+export const BASELINE_VERSION = 1;
+
+/**
+ * @hidden
+ */
+export const createRunningStats = (): RunningStats => ({
+  count: 0,
+  mean: 0,
+  variance: 0
+});
+
+/**
+ * @hidden
+ * Welford's online update. The sum of squared differences is recovered from
+ * the sample variance so the stats stay JSON serializable.
+ */
+export function updateRunningStats(
+  stats: RunningStats,
+  value: number
+): RunningStats {
+  if (!Number.isFinite(value)) {
+    return stats;
+  }
+
+  const count = stats.count + 1;
+  const delta = value - stats.mean;
+  const mean = stats.mean + delta / count;
+  const squaredDifferences =
+    stats.variance * Math.max(stats.count - 1, 0) + delta * (value - mean);
+
+  return {
+    count,
+    mean,
+    variance: count > 1 ? squaredDifferences / (count - 1) : 0
+  };
+}
+
+/**
+ * @hidden
+ */
+export function toZScore(stats: RunningStats, value: number): number {
+  const standardDeviation = Math.sqrt(stats?.variance ?? 0);
+  return standardDeviation ? (value - stats.mean) / standardDeviation : 0;
+}
+
+// Bands live under `data`, next to the payload's `label`
+const mapBands = <R>(
+  { data }: PowerByBand,
+  mapper: (channels: number[], band: BandName) => R
+): Record<BandName, R> =>
+  Object.fromEntries(
+    (Object.keys(data) as BandName[]).map((band) => [
+      band,
+      mapper(data[band], band)
+    ])
+  ) as Record<BandName, R>;
+
+// Stats without any sample would turn every later z-score into 0 or NaN
+const requireSamples = <T>(metric: string, hasSamples: (stats: T) => boolean) =>
+  map((stats: T): T => {
+    if (!hasSamples(stats)) {
+      throw new Error(
+        `${errors.prefix}No ${metric} data was received to compute the baseline.`
+      );
+    }
+
+    return stats;
+  });
+
+/**
+ * Accumulates the per channel mean and variance of every band of
+ * `powerByBand` when the source completes. Errors when no data was received.
+ *
+ * @example
+ * neurosity.brainwaves("powerByBand").pipe(
+ *   takeUntil(timer(60000)),
+ *   powerByBandStats()
+ * );
+ *
+ * @returns {Observable<Object>}
+ */
+export const powerByBandStats = () =>
+  pipe(
+    reduce(
+      (
+        stats: Record<BandName, RunningStats[]>,
+        powerByBand: PowerByBand
+      ): Record<BandName, RunningStats[]> =>
+        mapBands(powerByBand, (channels, band) =>
+          channels.map((value, channelIndex) =>
+            updateRunningStats(
+              stats?.[band]?.[channelIndex] ?? createRunningStats(),
+              value
+            )
+          )
+        ),
+      null
+    ),
+    requireSamples<Record<BandName, RunningStats[]>>("powerByBand", (stats) =>
+      Object.values(stats ?? {}).some((channels) =>
+        channels.some(({ count }) => count > 0)
+      )
+    )
+  );
+
+/**
+ * Accumulates the mean and variance of the probability of `focus` or `calm`
+ * when the source completes. Errors when no data was received.
+ *
+ * @example
+ * neurosity.calm().pipe(takeUntil(timer(60000)), probabilityStats());
+ *
+ * @returns {Observable<RunningStats>}
+ */
+export const probabilityStats = () =>
+  pipe(
+    reduce(
+      (stats: RunningStats, { probability }: { probability: number }) =>
+        updateRunningStats(stats, probability),
+      createRunningStats()
+    ),
+    requireSamples<RunningStats>("probability", ({ count }) => count > 0)
+  );
+
+/**
+ * Normalizes `powerByBand`, `focus` or `calm` against a baseline recorded with
+ * `neurosity.calibrate()`. Emissions keep their shape, with band powers or the
+ * probability replaced by their z-score relative to the baseline.
+ *
+ * @example
+ * const baseline = await neurosity.calibrate({
+ *   label: "eyes-open",
+ *   metrics: ["calm"],
+ *   durationMs: 60000
+ * });
+ *
+ * neurosity.calm().pipe(zScore(baseline, "calm"));
+ *
+ * @param {Object} baseline
+ * @param {string} metric
+ * @returns {Observable<Object>}
+ */
+export const zScore = (baseline: Baseline, metric: CalibrationMetric) => {
+  const stats = baseline?.[metric];
+
+  if (!stats) {
+    throw new Error(
+      `${errors.prefix}Baseline ${baseline?.label} has no stats for ${metric}.`
+    );
+  }
+
+  return (source: Observable<any>): Observable<any> =>
+    source.pipe(
+      map((data) => {
+        if (metric === "powerByBand") {
+          return {
+            ...data,
+            data: mapBands(data, (channels, band) =>
+              channels.map((value, channelIndex) =>
+                toZScore(stats[band]?.[channelIndex], value)
+              )
+            )
+          };
+        }
+
+        return {
+          ...data,
+          probability: toZScore(stats as RunningStats, data.probability)
+        };
+      })
+    );
+};
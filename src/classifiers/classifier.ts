@@ -0,0 +1,266 @@
+import { Observable, pipe } from "rxjs";
+import { map } from "rxjs/operators";
+
+import { Epoch } from "../types/brainwaves";
+import { Kinesis } from "../types/kinesis";
+import { ClassifierModel, LabelledEpoch } from "../types/classifiers";
+import { TrainClassifierOptions } from "../types/classifiers";
+import * as errors from "../utils/errors";
+import { logBandPower, fitStandardization, standardize } from "./features";
+import { bandpass } from "./features";
+import {
+  linearProbabilities,
+  trainLDA,
+  trainLogisticRegression
+} from "./linear";
+import { trainCSP, cspFeatures } from "./csp";
+
+/**
+ * @hidden
+ */
+export const CLASSIFIER_VERSION = 1;
+
+const defaultOptions: Partial<TrainClassifierOptions> = {
+  bands: ["theta", "alpha", "beta"],
+  shrinkage: 0.1,
+  iterations: 500,
+  learningRate: 0.1,
+  l2: 0.01,
+  filterBand: [8, 30],
+  components: 2
+};
+
+const validateEpochs = (epochs: LabelledEpoch[]): string[] => {
+  const labels = [...new Set(epochs.map(({ label }) => label))];
+
+  if (labels.length < 2) {
+    throw new Error(
+      `${errors.prefix}Training a classifier requires epochs of at least 2 labels.`
+    );
+  }
+
+  const [{ epoch: first }] = epochs;
+  const isConsistent = epochs.every(
+    ({ epoch }) =>
+      epoch.data.length === first.data.length &&
+      epoch.info.samplingRate === first.info.samplingRate
+  );
+
+  if (!isConsistent) {
+    throw new Error(
+      `${errors.prefix}All epochs must have the same channels and sampling rate.`
+    );
+  }
+
+  return labels;
+};
+
+/**
+ * Trains a classifier on labelled epochs of `raw` brainwaves, e.g. from
+ * `epochsFromSession()`. The model is JSON serializable and can be used with
+ * `neurosity.localPredictions()` or the `toPredictions` operator.
+ *
+ * ```typescript
+ * const model = trainClassifier(epochs, { type: "csp" });
+ *
+ * fs.writeFileSync("model.json", serializeClassifier(model));
+ * ```
+ *
+ * @param epochs Epochs with their label
+ * @param options Classifier type and hyperparameters
+ * @returns Trained model
+ */
+export function trainClassifier(
+  epochs: LabelledEpoch[],
+  options: TrainClassifierOptions
+): ClassifierModel {
+  const { type, bands, shrinkage, filterBand, components, ...rest } = {
+    ...defaultOptions,
+    ...options
+  };
+  const labels = validateEpochs(epochs ?? []);
+  const classIndexes = epochs.map(({ label }) => labels.indexOf(label));
+  const [{ epoch: first }] = epochs;
+
+  const base = {
+    version: CLASSIFIER_VERSION,
+    labels,
+    samplingRate: first.info.samplingRate,
+    ...(first.info.channelNames
+      ? { channelNames: first.info.channelNames }
+      : {}),
+    epochSize: first.data[0]?.length ?? 0
+  };
+
+  switch (type) {
+    case "lda":
+    case "logisticRegression": {
+      const features = epochs.map(({ epoch }) => logBandPower(epoch, bands));
+      const standardization = fitStandardization(features);
+      const standardized = features.map((row) =>
+        standardize(row, standardization)
+      );
+
+      const linear =
+        type === "lda"
+          ? trainLDA(standardized, classIndexes, labels.length, shrinkage)
+          : trainLogisticRegression(standardized, classIndexes, labels.length, {
+              iterations: rest.iterations,
+              learningRate: rest.learningRate,
+              l2: rest.l2
+            });
+
+      return { ...base, type, bands, standardization, linear };
+    }
+
+    case "csp": {
+      if (labels.length !== 2) {
+        throw new Error(
+          `${errors.prefix}CSP classifiers support exactly 2 labels.`
+        );
+      }
+
+      const filtered = epochs.map(({ epoch }) => bandpass(epoch, filterBand));
+      const filters = trainCSP(
+        [0, 1].map((classIndex) =>
+          filtered.filter((_, row) => classIndexes[row] === classIndex)
+        ) as [number[][][], number[][][]],
+        components,
+        shrinkage
+      );
+      const features = filtered.map((channels) =>
+        cspFeatures(filters, channels)
+      );
+      const linear = trainLDA(features, classIndexes, labels.length, shrinkage);
+
+      return { ...base, type, filterBand, filters, linear };
+    }
+
+    default:
+      throw new Error(`${errors.prefix}Unknown classifier type: ${type}`);
+  }
+}
+
+/**
+ * Probability of every label of the model for an epoch
+ *
+ * @param model Trained model
+ * @param epoch Epoch of `raw` brainwaves
+ * @returns Probabilities by label
+ */
+export function predictProbabilities(
+  model: ClassifierModel,
+  epoch: Epoch
+): { [label: string]: number } {
+  const features =
+    model.type === "csp"
+      ? cspFeatures(model.filters, bandpass(epoch, model.filterBand))
+      : standardize(logBandPower(epoch, model.bands), model.standardization);
+
+  const probabilities = linearProbabilities(model.linear, features);
+
+  return Object.fromEntries(
+    model.labels.map((label, index) => [label, probabilities[index]])
+  );
+}
+
+const channelCountOf = (model: ClassifierModel): number =>
+  model.channelNames?.length ??
+  (model.type === "csp"
+    ? model.filters[0]?.length
+    : model.standardization.mean.length / model.bands.length);
+
+/**
+ * Features of epochs with other channels or sampling rate than the training
+ * epochs are meaningless, so they error instead of predicting
+ */
+const validateEpochForModel = (model: ClassifierModel, epoch: Epoch) => {
+  const { samplingRate, channelNames } = epoch.info;
+  const channelCount = channelCountOf(model);
+  const hasSameChannelNames =
+    !model.channelNames ||
+    !channelNames ||
+    model.channelNames.join() === channelNames.join();
+
+  if (
+    samplingRate !== model.samplingRate ||
+    epoch.data.length !== channelCount ||
+    !hasSameChannelNames
+  ) {
+    const describe = (count: number, names?: string[]) =>
+      names ? names.join(", ") : `${count} channels`;
+
+    throw new Error(
+      `${errors.prefix}Epochs with ${describe(
+        epoch.data.length,
+        channelNames
+      )} at ${samplingRate}Hz don't match the model, trained with ${describe(
+        channelCount,
+        model.channelNames
+      )} at ${model.samplingRate}Hz.`
+    );
+  }
+};
+
+/**
+ * Classifies every Epoch with a model trained by `trainClassifier()`, and
+ * emits the most probable label in the same shape as `kinesis()`. Errors
+ * when the epochs don't have the channels and sampling rate of the model.
+ *
+ * @example
+ * neurosity.brainwaves("raw", { epochSize: 512, hop: 128 }).pipe(
+ *   toPredictions(model)
+ * );
+ *
+ * @param {Object} model
+ * @returns {Observable<Kinesis>}
+ */
+export const toPredictions = (model: ClassifierModel) =>
+  pipe(
+    map((epoch: Epoch): Kinesis => {
+      validateEpochForModel(model, epoch);
+
+      const [label, probability] = Object.entries(
+        predictProbabilities(model, epoch)
+      ).reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+      const sampleCount = epoch.data[0]?.length ?? 0;
+
+      return {
+        metric: "kinesis",
+        label,
+        probability,
+        // Predictions are timestamped with the last sample of the epoch
+        timestamp:
+          epoch.info.startTime +
+          (Math.max(sampleCount - 1, 0) * 1000) / epoch.info.samplingRate
+      };
+    })
+  ) as (source: Observable<Epoch>) => Observable<Kinesis>;
+
+/**
+ * @param model Trained model
+ * @returns JSON string of the model
+ */
+export function serializeClassifier(model: ClassifierModel): string {
+  return JSON.stringify(model);
+}
+
+/**
+ * @param json Model serialized by `serializeClassifier()`
+ * @returns Trained model
+ */
+export function deserializeClassifier(json: string): ClassifierModel {
+  const model = JSON.parse(json);
+
+  if (!["lda", "logisticRegression", "csp"].includes(model?.type)) {
+    throw new Error(`${errors.prefix}Invalid classifier model.`);
+  }
+
+  if (model.version > CLASSIFIER_VERSION) {
+    throw new Error(
+      `${errors.prefix}Classifier model version ${model.version} is not supported.`
+    );
+  }
+
+  return model;
+}
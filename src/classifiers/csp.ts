@@ -0,0 +1,75 @@
+import { covariance, multiply, shrink, symmetricEigen } from "./linalg";
+import { transpose, Matrix } from "./linalg";
+
+// Keeps the log finite for flat components
+const LOG_EPSILON = 1e-12;
+
+/**
+ * @hidden
+ * Spatial covariance of channels normalized by its trace
+ */
+export function spatialCovariance(channels: number[][]): Matrix {
+  const matrix = covariance(transpose(channels));
+  const trace = matrix.reduce((sum, row, i) => sum + row[i], 0) || 1;
+  return matrix.map((row) => row.map((value) => value / trace));
+}
+
+const averageMatrix = (matrices: Matrix[]): Matrix =>
+  matrices[0].map((row, i) =>
+    row.map(
+      (_, j) =>
+        matrices.reduce((sum, matrix) => sum + matrix[i][j], 0) /
+        matrices.length
+    )
+  );
+
+/**
+ * @hidden
+ * Common spatial patterns of two classes. The filters maximize the variance
+ * of one class while minimizing the variance of the other, `components`
+ * filters are kept from each end of the spectrum.
+ */
+export function trainCSP(
+  classes: [number[][][], number[][][]],
+  components: number,
+  shrinkage: number
+): Matrix {
+  const [first, second] = classes.map((trials) =>
+    shrink(averageMatrix(trials.map(spatialCovariance)), shrinkage)
+  );
+  const composite = first.map((row, i) =>
+    row.map((value, j) => value + second[i][j])
+  );
+
+  // Whiten the composite covariance
+  const { values, vectors } = symmetricEigen(composite);
+  const whitening = transpose(vectors).map((row, i) =>
+    row.map((value) => value / Math.sqrt(Math.max(values[i], LOG_EPSILON)))
+  );
+
+  const { vectors: rotation } = symmetricEigen(
+    multiply(multiply(whitening, first), transpose(whitening))
+  );
+  const filters = multiply(transpose(rotation), whitening);
+  const count = Math.min(components, Math.floor(filters.length / 2));
+
+  return [...filters.slice(0, count), ...filters.slice(-count)];
+}
+
+/**
+ * @hidden
+ * Log of the normalized variance of every spatially filtered component
+ */
+export function cspFeatures(filters: Matrix, channels: number[][]): number[] {
+  const variances = multiply(filters, channels).map((component) => {
+    const mean =
+      component.reduce((sum, value) => sum + value, 0) / component.length;
+    return (
+      component.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+      component.length
+    );
+  });
+  const total = variances.reduce((sum, value) => sum + value, 0) || 1;
+
+  return variances.map((variance) => Math.log(variance / total + LOG_EPSILON));
+}
@@ -0,0 +1,98 @@
+import { Epoch } from "../types/brainwaves";
+import { Marker } from "../types/marker";
+import { Session } from "../types/recording";
+import { LabelledEpoch } from "../types/classifiers";
+import * as errors from "../utils/errors";
+
+type EpochsFromSessionOptions = {
+  /**
+   * Duration in ms of every epoch
+   */
+  durationMs: number;
+  /**
+   * Delay in ms between a marker and the start of its epoch. Defaults to 0.
+   */
+  offsetMs?: number;
+  /**
+   * Labels to keep, all marker labels are kept when omitted
+   */
+  labels?: string[];
+};
+
+/**
+ * Cuts labelled epochs from a session recorded with `neurosity.record()`
+ * including `brainwaves/raw`. Every marker starts an epoch labelled with the
+ * marker label, e.g. markers added at the start of every trial.
+ *
+ * ```typescript
+ * await neurosity.record({
+ *   metrics: ["brainwaves/raw"],
+ *   durationMs: 5 * 60 * 1000,
+ *   writer: fs.createWriteStream("session.ndjson")
+ * });
+ *
+ * const session = parseSession(fs.readFileSync("session.ndjson", "utf8"));
+ * const epochs = epochsFromSession(session, { durationMs: 2000 });
+ * ```
+ *
+ * @param session Recorded session
+ * @param options
+ * @returns Labelled epochs
+ */
+export function epochsFromSession(
+  session: Session,
+  options: EpochsFromSessionOptions
+): LabelledEpoch[] {
+  const { durationMs, offsetMs = 0, labels } = options;
+
+  const rawEpochs: Epoch[] = session.events
+    .filter(({ metric }) => metric === "brainwaves/raw")
+    .map(({ data }) => data);
+
+  if (!rawEpochs.length) {
+    throw new Error(
+      `${errors.prefix}The session does not include brainwaves/raw.`
+    );
+  }
+
+  const { samplingRate, channelNames } = rawEpochs[0].info;
+  const samples = rawEpochs.flatMap((epoch) =>
+    (epoch.data[0] ?? []).map((_, sampleIndex) => ({
+      timestamp:
+        epoch.info.startTime + (sampleIndex * 1000) / epoch.info.samplingRate,
+      data: epoch.data.map((channel) => channel[sampleIndex])
+    }))
+  );
+  const sampleCount = Math.round((durationMs * samplingRate) / 1000);
+
+  return session.events
+    .filter(({ metric }) => metric === "markers")
+    .map(({ data }) => data as Marker)
+    .filter(({ label }) => !labels || labels.includes(label))
+    .map(({ label, timestamp }): LabelledEpoch | null => {
+      const start = samples.findIndex(
+        (sample) => sample.timestamp >= timestamp + offsetMs
+      );
+
+      if (start < 0 || start + sampleCount > samples.length) {
+        return null;
+      }
+
+      const trial = samples.slice(start, start + sampleCount);
+
+      return {
+        label,
+        epoch: {
+          data: trial[0].data.map((_, channelIndex) =>
+            trial.map((sample) => sample.data[channelIndex])
+          ),
+          info: {
+            samplingRate,
+            startTime: trial[0].timestamp,
+            ...(channelNames ? { channelNames } : {})
+          }
+        }
+      };
+    })
+    .filter((epoch) => !!epoch);
+}
@@ -0,0 +1,75 @@
+import { BandName, Epoch } from "../types/brainwaves";
+import { periodogram } from "../utils/dsp/fft";
+import { averageBandPower, FREQUENCY_BANDS } from "../utils/dsp/bands";
+import { IIRFilter, butterworthBandpass } from "../utils/dsp/iir";
+import { meanVector } from "./linalg";
+
+// Keeps the log finite for flat channels
+const LOG_EPSILON = 1e-12;
+
+/**
+ * @hidden
+ * Log power of every band for every channel, ordered by channel
+ */
+export function logBandPower(epoch: Epoch, bands: BandName[]): number[] {
+  const { samplingRate } = epoch.info;
+  const spectra = epoch.data.map((channel) =>
+    periodogram(channel, samplingRate)
+  );
+  const psd = spectra.map(({ psd }) => psd);
+  const freqs = spectra[0]?.freqs ?? [];
+
+  const powerByBand = bands.map((band) =>
+    averageBandPower(psd, freqs, FREQUENCY_BANDS[band])
+  );
+
+  return epoch.data.flatMap((_, channelIndex) =>
+    powerByBand.map((power) => Math.log(power[channelIndex] + LOG_EPSILON))
+  );
+}
+
+/**
+ * @hidden
+ * Per feature mean and standard deviation
+ */
+export function fitStandardization(rows: number[][]): {
+  mean: number[];
+  std: number[];
+} {
+  const mean = meanVector(rows);
+  const std = mean.map((featureMean, j) => {
+    const variance =
+      rows.reduce((sum, row) => sum + (row[j] - featureMean) ** 2, 0) /
+      (rows.length || 1);
+    return Math.sqrt(variance) || 1;
+  });
+
+  return { mean, std };
+}
+
+/**
+ * @hidden
+ */
+export function standardize(
+  row: number[],
+  { mean, std }: { mean: number[]; std: number[] }
+): number[] {
+  return row.map((value, j) => (value - mean[j]) / std[j]);
+}
+
+/**
+ * @hidden
+ * Band-passes every channel of an epoch from a zero filter state
+ */
+export function bandpass(
+  epoch: Epoch,
+  [lowCutoff, highCutoff]: [number, number]
+): number[][] {
+  const sections = butterworthBandpass(
+    lowCutoff,
+    highCutoff,
+    epoch.info.samplingRate
+  );
+
+  return epoch.data.map((channel) => new IIRFilter(sections).process(channel));
+}
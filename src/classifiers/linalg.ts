@@ -0,0 +1,215 @@
+/**
+ * @hidden
+ * Small dense linear algebra helpers for the classifiers. Matrices are arrays
+ * of rows.
+ */
+export type Matrix = number[][];
+
+const JACOBI_MAX_SWEEPS = 100;
+const JACOBI_TOLERANCE = 1e-12;
+
+/**
+ * @hidden
+ */
+export const identity = (size: number): Matrix =>
+  Array.from({ length: size }, (_, i) =>
+    Array.from({ length: size }, (_, j) => (i === j ? 1 : 0))
+  );
+
+/**
+ * @hidden
+ */
+export const transpose = (matrix: Matrix): Matrix =>
+  (matrix[0] ?? []).map((_, j) => matrix.map((row) => row[j]));
+
+/**
+ * @hidden
+ */
+export const multiply = (a: Matrix, b: Matrix): Matrix =>
+  a.map((row) =>
+    (b[0] ?? []).map((_, j) =>
+      row.reduce((sum, value, k) => sum + value * b[k][j], 0)
+    )
+  );
+
+/**
+ * @hidden
+ */
+export const dot = (a: number[], b: number[]): number =>
+  a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+/**
+ * @hidden
+ */
+export const meanVector = (rows: number[][]): number[] =>
+  (rows[0] ?? []).map(
+    (_, j) => rows.reduce((sum, row) => sum + row[j], 0) / rows.length
+  );
+
+/**
+ * @hidden
+ * Covariance of observations given as rows, normalized by the number of rows
+ */
+export function covariance(rows: number[][], mean = meanVector(rows)): Matrix {
+  const size = mean.length;
+  const result = Array.from({ length: size }, () => new Array(size).fill(0));
+
+  rows.forEach((row) => {
+    for (let i = 0; i < size; i++) {
+      for (let j = i; j < size; j++) {
+        result[i][j] += (row[i] - mean[i]) * (row[j] - mean[j]);
+      }
+    }
+  });
+
+  for (let i = 0; i < size; i++) {
+    for (let j = i; j < size; j++) {
+      result[i][j] /= rows.length || 1;
+      result[j][i] = result[i][j];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * @hidden
+ * Shrinks a covariance matrix towards a scaled identity, which keeps it
+ * invertible with few observations
+ */
+export function shrink(matrix: Matrix, shrinkage: number): Matrix {
+  const scale =
+    matrix.reduce((sum, row, i) => sum + row[i], 0) / (matrix.length || 1);
+
+  return matrix.map((row, i) =>
+    row.map(
+      (value, j) => (1 - shrinkage) * value + (i === j ? shrinkage * scale : 0)
+    )
+  );
+}
+
+/**
+ * @hidden
+ * Gauss-Jordan elimination with partial pivoting
+ */
+export function invert(matrix: Matrix): Matrix {
+  const size = matrix.length;
+  const a = matrix.map((row) => [...row]);
+  const inverse = identity(size);
+
+  for (let column = 0; column < size; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < size; row++) {
+      if (Math.abs(a[row][column]) > Math.abs(a[pivot][column])) {
+        pivot = row;
+      }
+    }
+
+    if (Math.abs(a[pivot][column]) < 1e-15) {
+      throw new Error("Matrix is singular");
+    }
+
+    [a[column], a[pivot]] = [a[pivot], a[column]];
+    [inverse[column], inverse[pivot]] = [inverse[pivot], inverse[column]];
+
+    const divisor = a[column][column];
+    for (let j = 0; j < size; j++) {
+      a[column][j] /= divisor;
+      inverse[column][j] /= divisor;
+    }
+
+    for (let row = 0; row < size; row++) {
+      const factor = a[row][column];
+      if (row !== column && factor !== 0) {
+        for (let j = 0; j < size; j++) {
+          a[row][j] -= factor * a[column][j];
+          inverse[row][j] -= factor * inverse[column][j];
+        }
+      }
+    }
+  }
+
+  return inverse;
+}
+
+/**
+ * @hidden
+ * Eigen decomposition of a symmetric matrix with the cyclic Jacobi method.
+ * Eigenvectors are the columns of `vectors`, sorted by descending eigenvalue.
+ */
+export function symmetricEigen(matrix: Matrix): {
+  values: number[];
+  vectors: Matrix;
+} {
+  const size = matrix.length;
+  const a = matrix.map((row) => [...row]);
+  const v = identity(size);
+
+  for (let sweep = 0; sweep < JACOBI_MAX_SWEEPS; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < size; p++) {
+      for (let q = p + 1; q < size; q++) {
+        offDiagonal += a[p][q] * a[p][q];
+      }
+    }
+
+    if (offDiagonal < JACOBI_TOLERANCE) {
+      break;
+    }
+
+    for (let p = 0; p < size; p++) {
+      for (let q = p + 1; q < size; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) {
+          continue;
+        }
+
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t =
+          Math.sign(theta || 1) /
+          (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < size; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+
+        for (let k = 0; k < size; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+
+        for (let k = 0; k < size; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  const order = a
+    .map((row, i) => ({ value: row[i], index: i }))
+    .sort((x, y) => y.value - x.value);
+
+  return {
+    values: order.map(({ value }) => value),
+    vectors: v.map((row) => order.map(({ index }) => row[index]))
+  };
+}
+
+/**
+ * @hidden
+ */
+export function softmax(scores: number[]): number[] {
+  const max = Math.max(...scores);
+  const exps = scores.map((score) => Math.exp(score - max));
+  const sum = exps.reduce((total, value) => total + value, 0);
+  return exps.map((value) => value / sum);
+}
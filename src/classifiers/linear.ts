@@ -0,0 +1,121 @@
+import { LinearModel } from "../types/classifiers";
+import { covariance, dot, invert, meanVector, shrink } from "./linalg";
+import { softmax } from "./linalg";
+
+type LogisticRegressionOptions = {
+  iterations: number;
+  learningRate: number;
+  l2: number;
+};
+
+/**
+ * @hidden
+ */
+export function linearProbabilities(
+  model: LinearModel,
+  features: number[]
+): number[] {
+  return softmax(
+    model.weights.map(
+      (weights, classIndex) => dot(weights, features) + model.biases[classIndex]
+    )
+  );
+}
+
+const groupByClass = (
+  features: number[][],
+  classIndexes: number[],
+  classCount: number
+): number[][][] =>
+  Array.from({ length: classCount }, (_, classIndex) =>
+    features.filter((_, row) => classIndexes[row] === classIndex)
+  );
+
+/**
+ * @hidden
+ * Linear discriminant analysis with a shared, shrunk covariance
+ */
+export function trainLDA(
+  features: number[][],
+  classIndexes: number[],
+  classCount: number,
+  shrinkage: number
+): LinearModel {
+  const groups = groupByClass(features, classIndexes, classCount);
+  const means = groups.map((rows) => meanVector(rows));
+  const size = features[0].length;
+
+  const pooled = groups.reduce(
+    (total, rows, classIndex) => {
+      const classCovariance = covariance(rows, means[classIndex]);
+      return total.map((row, i) =>
+        row.map(
+          (value, j) =>
+            value + (classCovariance[i][j] * rows.length) / features.length
+        )
+      );
+    },
+    Array.from({ length: size }, () => new Array(size).fill(0))
+  );
+
+  const precision = invert(shrink(pooled, shrinkage));
+
+  const weights = means.map((mean) => precision.map((row) => dot(row, mean)));
+  const biases = means.map(
+    (mean, classIndex) =>
+      -0.5 * dot(mean, weights[classIndex]) +
+      Math.log(groups[classIndex].length / features.length)
+  );
+
+  return { weights, biases };
+}
+
+/**
+ * @hidden
+ * Multinomial logistic regression fit with batch gradient descent
+ */
+export function trainLogisticRegression(
+  features: number[][],
+  classIndexes: number[],
+  classCount: number,
+  { iterations, learningRate, l2 }: LogisticRegressionOptions
+): LinearModel {
+  const size = features[0].length;
+  const model: LinearModel = {
+    weights: Array.from({ length: classCount }, () => new Array(size).fill(0)),
+    biases: new Array(classCount).fill(0)
+  };
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const weightGradients = model.weights.map((weights) =>
+      weights.map((weight) => l2 * weight)
+    );
+    const biasGradients = new Array(classCount).fill(0);
+
+    features.forEach((row, rowIndex) => {
+      const probabilities = linearProbabilities(model, row);
+
+      probabilities.forEach((probability, classIndex) => {
+        const error =
+          (probability - (classIndexes[rowIndex] === classIndex ? 1 : 0)) /
+          features.length;
+
+        biasGradients[classIndex] += error;
+        row.forEach((value, j) => {
+          weightGradients[classIndex][j] += error * value;
+        });
+      });
+    });
+
+    model.weights = model.weights.map((weights, classIndex) =>
+      weights.map(
+        (weight, j) => weight - learningRate * weightGradients[classIndex][j]
+      )
+    );
+    model.biases = model.biases.map(
+      (bias, classIndex) => bias - learningRate * biasGradients[classIndex]
+    );
+  }
+
+  return model;
+}
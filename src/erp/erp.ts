@@ -0,0 +1,208 @@
+import { Observable, defer, from, merge } from "rxjs";
+import { map, mergeMap } from "rxjs/operators";
+
+import { Epoch } from "../types/brainwaves";
+import { ERP, ERPOptions, StimulusEvent } from "../types/erp";
+
+const defaultOptions = {
+  preStimulus: 200,
+  postStimulus: 800,
+  maxLatency: 1000
+};
+
+type TimedSample = {
+  timestamp: number;
+  data: number[];
+};
+
+type Input = { epoch: Epoch } | { event: StimulusEvent };
+
+const mean = (values: number[]): number =>
+  values.reduce((sum, value) => sum + value, 0) / (values.length || 1);
+
+/**
+ * @hidden
+ * Cuts the samples of a trial as channels, or returns null when the buffer
+ * is missing part of the trial. The sample closest to the stimulus is at
+ * index `preStimulusCount`.
+ */
+export function cutTrial(
+  samples: TimedSample[],
+  stimulusTime: number,
+  preStimulusCount: number,
+  sampleCount: number
+): number[][] | null {
+  const stimulusIndex = samples.reduce(
+    (closest, { timestamp }, index) =>
+      Math.abs(timestamp - stimulusTime) <
+      Math.abs(samples[closest].timestamp - stimulusTime)
+        ? index
+        : closest,
+    0
+  );
+  const start = stimulusIndex - preStimulusCount;
+
+  if (!samples.length || start < 0 || start + sampleCount > samples.length) {
+    return null;
+  }
+
+  const trial = samples.slice(start, start + sampleCount);
+
+  return trial[0].data.map((_, channelIndex) =>
+    trial.map((sample) => sample.data[channelIndex])
+  );
+}
+
+/**
+ * @hidden
+ * Subtracts the mean of the samples from `from` up to `to` from every channel
+ */
+export function baselineCorrect(
+  channels: number[][],
+  times: number[],
+  [from, to]: [number, number]
+): number[][] {
+  return channels.map((channel) => {
+    const offset = mean(
+      channel.filter((_, index) => times[index] >= from && times[index] < to)
+    );
+    return channel.map((value) => value - offset);
+  });
+}
+
+/**
+ * Averages time-locked epochs of `raw` brainwaves per condition, e.g. for
+ * oddball or P300 paradigms. Every stimulus event cuts a trial from
+ * `preStimulus` before to `postStimulus` after its timestamp, based on sample
+ * timestamps. Trials are baseline corrected and added to the running average
+ * of their condition, which is emitted with its trial count.
+ *
+ * @example
+ * neurosity.brainwaves("raw").pipe(
+ *   averageERP(stimuli$, { preStimulus: 100, postStimulus: 600 })
+ * );
+ *
+ * @param {Observable} events$ Stimulus events
+ * @param {Object} options
+ * @returns {Observable<ERP>}
+ */
+export const averageERP =
+  (events$: Observable<StimulusEvent>, options: ERPOptions = {}) =>
+  (source: Observable<Epoch>): Observable<ERP> =>
+    defer(() => {
+      const { preStimulus, postStimulus, maxLatency, conditions } = {
+        ...defaultOptions,
+        ...options
+      };
+      const baseline =
+        options.baseline === undefined
+          ? ([-preStimulus, 0] as [number, number])
+          : options.baseline;
+
+      let samples: TimedSample[] = [];
+      let pending: StimulusEvent[] = [];
+      const averages = new Map<string, ERP>();
+
+      const addTrial = (
+        event: StimulusEvent,
+        info: Epoch["info"]
+      ): ERP | null => {
+        const { samplingRate, channelNames } = info;
+        const preStimulusCount = Math.round(
+          (preStimulus * samplingRate) / 1000
+        );
+        const sampleCount =
+          preStimulusCount + Math.round((postStimulus * samplingRate) / 1000);
+        const times = Array.from(
+          { length: sampleCount },
+          (_, index) => ((index - preStimulusCount) * 1000) / samplingRate
+        );
+        const trial = cutTrial(
+          samples,
+          event.timestamp,
+          preStimulusCount,
+          sampleCount
+        );
+
+        if (!trial) {
+          return null;
+        }
+
+        const corrected = baseline
+          ? baselineCorrect(trial, times, baseline)
+          : trial;
+        const previous = averages.get(event.label);
+        const trialCount = (previous?.trialCount ?? 0) + 1;
+
+        const average: ERP = {
+          condition: event.label,
+          trialCount,
+          times,
+          data: corrected.map((channel, channelIndex) =>
+            channel.map((value, sampleIndex) => {
+              const current = previous?.data[channelIndex]?.[sampleIndex] ?? 0;
+              return current + (value - current) / trialCount;
+            })
+          ),
+          info: {
+            samplingRate,
+            ...(channelNames ? { channelNames } : {}),
+            lastStimulusTime: event.timestamp
+          }
+        };
+
+        averages.set(event.label, average);
+
+        return average;
+      };
+
+      const onEpoch = (epoch: Epoch): ERP[] => {
+        const { samplingRate, startTime } = epoch.info;
+
+        (epoch.data[0] ?? []).forEach((_, sampleIndex) => {
+          samples.push({
+            timestamp: startTime + (sampleIndex * 1000) / samplingRate,
+            data: epoch.data.map((channel) => channel[sampleIndex])
+          });
+        });
+
+        const latest = samples[samples.length - 1]?.timestamp ?? startTime;
+        const isComplete = (event: StimulusEvent) =>
+          latest >= event.timestamp + postStimulus;
+
+        const updates = pending
+          .filter(isComplete)
+          .map((event) => addTrial(event, epoch.info))
+          .filter((update) => !!update);
+
+        pending = pending.filter((event) => !isComplete(event));
+
+        // Keep enough samples for stimuli that arrive up to maxLatency late
+        const oldest = Math.min(
+          latest - preStimulus - postStimulus - maxLatency,
+          ...pending.map((event) => event.timestamp - preStimulus)
+        );
+        samples = samples.filter(({ timestamp }) => timestamp >= oldest);
+
+        return updates;
+      };
+
+      return merge(
+        source.pipe(map((epoch): Input => ({ epoch }))),
+        events$.pipe(map((event): Input => ({ event })))
+      ).pipe(
+        mergeMap((input: Input) => {
+          if ("epoch" in input) {
+            return from(onEpoch(input.epoch));
+          }
+
+          const { event } = input;
+
+          if (!conditions || conditions.includes(event.label)) {
+            pending.push(event);
+          }
+
+          return from([]);
+        })
+      );
+    });
@@ -0,0 +1,208 @@
+import { BehaviorSubject, Observable } from "rxjs";
+import { EMPTY, combineLatest, concat, defer, of, timer } from "rxjs";
+import { distinctUntilChanged, finalize, ignoreElements } from "rxjs/operators";
+import { map, startWith, takeUntil } from "rxjs/operators";
+import isEqual from "fast-deep-equal";
+
+import { Experiment, ExperimentProgress } from "../types/experiment";
+import { GuidedTrialOptions } from "../types/experiment";
+import { TrialPhase, TrialProgress } from "../types/experiment";
+import { Training, TrainingRecording } from "../types/training";
+import * as errors from "../utils/errors";
+
+const defaultOptions = {
+  trials: 1,
+  countdown: 3000,
+  duration: 8000,
+  rest: 2000,
+  baseline: false,
+  fit: true
+};
+
+// Countdowns are updated every second
+const TICK_INTERVAL = 1000;
+
+/**
+ * @hidden
+ */
+type KinesisExperimentDependencies = {
+  training: Training;
+  experiments$: Observable<Experiment[]>;
+};
+
+/**
+ * Kinesis experiment created via `neurosity.createExperiment()` or resumed
+ * via `neurosity.experiment()`. Runs guided trials with the training actions
+ * and counts the trials and fit requests of this instance. It doesn't create
+ * or update the experiment record: its name, labels and `totalTrials` are
+ * kept by the backend, and it is listed by `experiment()` once the backend
+ * processed its first trial.
+ *
+ * ```typescript
+ * const experiment = await neurosity.createExperiment();
+ *
+ * experiment
+ *   .runTrials({ label: "leftHandPinch", trials: 8 })
+ *   .subscribe(({ phase, trial, remaining }) => {
+ *     console.log(phase, trial, remaining);
+ *   });
+ *
+ * experiment.progress().subscribe(({ completedTrials, fitRequested }) => {
+ *   console.log(completedTrials, fitRequested.includes("leftHandPinch"));
+ * });
+ * ```
+ */
+export class KinesisExperiment {
+  readonly id: string;
+
+  /**
+   * @hidden
+   */
+  private dependencies: KinesisExperimentDependencies;
+
+  /**
+   * @hidden
+   */
+  private completedTrials$ = new BehaviorSubject<number>(0);
+
+  /**
+   * @hidden
+   */
+  private fitRequested$ = new BehaviorSubject<string[]>([]);
+
+  /**
+   * @hidden
+   */
+  constructor(
+    experimentId: string,
+    dependencies: KinesisExperimentDependencies
+  ) {
+    if (!experimentId) {
+      throw new Error(`${errors.prefix}An experiment id is required.`);
+    }
+
+    this.id = experimentId;
+    this.dependencies = dependencies;
+  }
+
+  /**
+   * Observes the experiment as listed by `neurosity.onUserExperiments()`, or
+   * `null` when it is not listed
+   */
+  public experiment(): Observable<Experiment | null> {
+    return this.dependencies.experiments$.pipe(
+      map(
+        (experiments) =>
+          experiments.find((experiment) => experiment.id === this.id) ?? null
+      ),
+      distinctUntilChanged((a, b) => isEqual(a, b))
+    );
+  }
+
+  /**
+   * Observes the experiment as listed by the backend, with the trials
+   * completed and the labels a fit was requested for by this instance
+   */
+  public progress(): Observable<ExperimentProgress> {
+    return combineLatest({
+      experiment: this.experiment().pipe(startWith(null)),
+      completedTrials: this.completedTrials$,
+      fitRequested: this.fitRequested$
+    });
+  }
+
+  /**
+   * Records trials for a label, each one preceded by a countdown and followed
+   * by a rest. Unsubscribing stops the trial being recorded. A fit is
+   * requested with the last trial unless `fit` is false.
+   *
+   * @param options
+   * @returns Observable of trial progress
+   */
+  public runTrials(options: GuidedTrialOptions): Observable<TrialProgress> {
+    const { label, trials, countdown, duration, rest, baseline, fit } = {
+      ...defaultOptions,
+      ...options
+    };
+
+    if (!label) {
+      throw new Error(`${errors.prefix}A label is required for runTrials`);
+    }
+
+    if (!Number.isInteger(trials) || trials <= 0) {
+      throw new Error(`${errors.prefix}trials must be a positive integer.`);
+    }
+
+    const { training } = this.dependencies;
+
+    return defer(() => {
+      let recording: TrainingRecording = null;
+
+      const toProgress = (
+        phase: TrialPhase,
+        trial: number,
+        remaining: number
+      ): TrialProgress => ({ phase, label, trial, trials, remaining });
+
+      const countdown$ = (phase: TrialPhase, trial: number, ms: number) =>
+        ms > 0
+          ? timer(0, TICK_INTERVAL).pipe(
+              takeUntil(timer(ms)),
+              map((tick) => toProgress(phase, trial, ms - tick * TICK_INTERVAL))
+            )
+          : EMPTY;
+
+      const runTrial = (trial: number): Observable<TrialProgress> => {
+        const isLastTrial = trial === trials;
+        const shouldFit = fit && isLastTrial;
+
+        return concat(
+          countdown$("countdown", trial, countdown),
+          defer(async () => {
+            recording = {
+              experimentId: this.id,
+              metric: "kinesis",
+              label,
+              baseline,
+              fit: shouldFit
+            };
+
+            await training.record(recording);
+          }).pipe(ignoreElements()),
+          countdown$("recording", trial, duration),
+          defer(async () => {
+            await training.stop(recording);
+            recording = null;
+
+            this.completedTrials$.next(this.completedTrials$.getValue() + 1);
+
+            if (shouldFit && !this.fitRequested$.getValue().includes(label)) {
+              this.fitRequested$.next([
+                ...this.fitRequested$.getValue(),
+                label
+              ]);
+            }
+          }).pipe(ignoreElements()),
+          isLastTrial ? EMPTY : countdown$("rest", trial, rest)
+        );
+      };
+
+      return concat(
+        ...Array.from({ length: trials }, (_, index) => runTrial(index + 1)),
+        of(toProgress("complete", trials, 0))
+      ).pipe(
+        finalize(() => {
+          if (recording) {
+            Promise.resolve(training.stop(recording)).catch((error) => {
+              console.warn(
+                `${errors.prefix}Could not stop the trial. ${
+                  error?.message ?? error
+                }`
+              );
+            });
+          }
+        })
+      );
+    });
+  }
+}
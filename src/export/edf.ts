@@ -0,0 +1,445 @@
+import { Observable, OperatorFunction, EMPTY } from "rxjs";
+import { Buffer } from "buffer/index.js"; // not including /index.js causes typescript to uses Node's native Buffer built-in and we want to use this npm package for both node and the browser
+
+import { Epoch } from "../types/brainwaves";
+import { DeviceInfo } from "../types/deviceInfo";
+import { Marker } from "../types/marker";
+import * as errors from "../utils/errors";
+
+export type EDFFormat = "edf" | "bdf";
+
+export interface EDFOptions {
+  /**
+   * `edf` writes 16-bit EDF+ files and `bdf` writes 24-bit BDF+ files.
+   * Defaults to `edf`.
+   */
+  format?: EDFFormat;
+  /**
+   * Channel names and sampling rate are taken from the device info, falling
+   * back to the epoch's `info`.
+   */
+  deviceInfo?: Partial<DeviceInfo>;
+  /**
+   * Markers to store as EDF+ annotations, e.g. the ones added via `addMarker`
+   */
+  markers$?: Observable<Marker>;
+  /**
+   * Physical range in microvolts. Values outside of the range are clipped.
+   * Defaults to ±3276.8 for EDF and ±83886 for BDF.
+   */
+  physicalMinimum?: number;
+  physicalMaximum?: number;
+  /**
+   * Duration of every data record in seconds. Defaults to 1.
+   */
+  recordDuration?: number;
+  /**
+   * Bytes reserved for annotations in every data record. Defaults to 240.
+   */
+  annotationBytesPerRecord?: number;
+  patientId?: string;
+  recordingId?: string;
+}
+
+/**
+ * A piece of the file to be written at `offset`. The header is emitted first
+ * with an unknown number of records, and the record count is patched in when
+ * the source completes.
+ */
+export interface EDFChunk {
+  offset: number;
+  bytes: Uint8Array;
+}
+
+const formats = {
+  edf: {
+    version: Buffer.from("0       ", "ascii"),
+    reserved: "EDF+C",
+    annotationsLabel: "EDF Annotations",
+    bytesPerSample: 2,
+    digitalMinimum: -32768,
+    digitalMaximum: 32767,
+    physicalRange: 3276.8
+  },
+  bdf: {
+    version: Buffer.from([0xff, ...Buffer.from("BIOSEMI", "ascii")]),
+    reserved: "BDF+C",
+    annotationsLabel: "BDF Annotations",
+    bytesPerSample: 3,
+    digitalMinimum: -8388608,
+    digitalMaximum: 8388607,
+    physicalRange: 83886
+  }
+};
+
+const MONTHS = [
+  "JAN",
+  "FEB",
+  "MAR",
+  "APR",
+  "MAY",
+  "JUN",
+  "JUL",
+  "AUG",
+  "SEP",
+  "OCT",
+  "NOV",
+  "DEC"
+];
+
+// Offset of the "number of data records" field in the header
+const NUMBER_OF_RECORDS_OFFSET = 236;
+
+const pad2 = (value: number) => String(value).padStart(2, "0");
+
+// Header fields are space padded ASCII, restricted to printable characters
+const ascii = (value: string | number, length: number): string =>
+  String(value)
+    .replace(/[^\x20-\x7e]/g, "_")
+    .slice(0, length)
+    .padEnd(length, " ");
+
+/**
+ * Formats a number with as much precision as fits in `length` characters
+ */
+const fitNumber = (value: number, length = 8): string => {
+  const integer = String(Math.round(value));
+
+  if (integer.length > length) {
+    throw new Error(
+      `${errors.prefix}${value} does not fit in an EDF header field`
+    );
+  }
+
+  for (let decimals = length; decimals > 0; decimals--) {
+    const formatted = String(Number(value.toFixed(decimals)));
+    if (formatted.length <= length) {
+      return formatted;
+    }
+  }
+
+  return integer;
+};
+
+// Characters with special meaning in Time-stamped Annotations Lists (TAL)
+const sanitizeAnnotation = (label: string) =>
+  String(label).replace(/[\x00\x14\x15]/g, " ");
+
+const onsetOf = (seconds: number) =>
+  `${seconds < 0 ? "-" : "+"}${Number(Math.abs(seconds).toFixed(3))}`;
+
+/**
+ * @hidden
+ */
+type Signal = {
+  label: string;
+  dimension: string;
+  physicalMinimum: string;
+  physicalMaximum: string;
+  digitalMinimum: number;
+  digitalMaximum: number;
+  samplesPerRecord: number;
+};
+
+/**
+ * @hidden
+ */
+function createHeader(
+  format: typeof formats.edf,
+  signals: Signal[],
+  startTime: number,
+  numberOfRecords: number,
+  recordDuration: number,
+  patientId: string,
+  recordingId: string
+): Buffer {
+  const date = new Date(startTime);
+  const startDate = `${pad2(date.getDate())}-${
+    MONTHS[date.getMonth()]
+  }-${date.getFullYear()}`;
+  const headerBytes = 256 * (signals.length + 1);
+
+  const field = (getValue: (signal: Signal) => string | number, length) =>
+    signals.map((signal) => ascii(getValue(signal), length)).join("");
+
+  const text = [
+    ascii(patientId, 80),
+    ascii(`Startdate ${startDate} ${recordingId}`, 80),
+    ascii(
+      `${pad2(date.getDate())}.${pad2(date.getMonth() + 1)}.${pad2(
+        date.getFullYear() % 100
+      )}`,
+      8
+    ),
+    ascii(
+      `${pad2(date.getHours())}.${pad2(date.getMinutes())}.${pad2(
+        date.getSeconds()
+      )}`,
+      8
+    ),
+    ascii(headerBytes, 8),
+    ascii(format.reserved, 44),
+    ascii(numberOfRecords, 8),
+    ascii(fitNumber(recordDuration), 8),
+    ascii(signals.length, 4),
+    field((signal) => signal.label, 16),
+    field(() => "", 80), // transducer type
+    field((signal) => signal.dimension, 8),
+    field((signal) => signal.physicalMinimum, 8),
+    field((signal) => signal.physicalMaximum, 8),
+    field((signal) => signal.digitalMinimum, 8),
+    field((signal) => signal.digitalMaximum, 8),
+    field(() => "", 80), // prefiltering
+    field((signal) => signal.samplesPerRecord, 8),
+    field(() => "", 32) // reserved
+  ].join("");
+
+  return Buffer.concat([format.version, Buffer.from(text, "ascii")]);
+}
+
+/**
+ * Converts a stream of raw brainwaves epochs into the chunks of an EDF+ or
+ * BDF+ file. Chunks are emitted as soon as a data record is complete, so long
+ * sessions are never held in memory. Markers are written as annotations.
+ *
+ * ```typescript
+ * const fd = fs.openSync("recording.edf", "w");
+ *
+ * neurosity
+ *   .brainwaves("raw")
+ *   .pipe(toEDF({ deviceInfo, markers$ }), take(...))
+ *   .subscribe({
+ *     next: ({ offset, bytes }) => {
+ *       fs.writeSync(fd, bytes, 0, bytes.length, offset);
+ *     },
+ *     complete: () => fs.closeSync(fd)
+ *   });
+ * ```
+ */
+export function toEDF(
+  options: EDFOptions = {}
+): OperatorFunction<Epoch, EDFChunk> {
+  const {
+    deviceInfo,
+    markers$ = EMPTY,
+    recordDuration = 1,
+    annotationBytesPerRecord = 240,
+    patientId = "X X X X",
+    recordingId = "X X Neurosity_SDK"
+  } = options;
+  const format = formats[options.format ?? "edf"];
+
+  if (!format) {
+    throw new Error(`${errors.prefix}Unsupported format ${options.format}`);
+  }
+
+  const physicalMinimum = fitNumber(
+    options.physicalMinimum ?? -format.physicalRange
+  );
+  const physicalMaximum = fitNumber(
+    options.physicalMaximum ?? format.physicalRange
+  );
+  // Scale with the values as written in the header
+  const physicalRange = Number(physicalMaximum) - Number(physicalMinimum);
+  const digitalRange = format.digitalMaximum - format.digitalMinimum;
+
+  const toDigital = (value: number): number => {
+    const digital = Math.round(
+      ((value - Number(physicalMinimum)) / physicalRange) * digitalRange +
+        format.digitalMinimum
+    );
+
+    if (!Number.isFinite(digital)) {
+      return 0;
+    }
+
+    return Math.min(
+      format.digitalMaximum,
+      Math.max(format.digitalMinimum, digital)
+    );
+  };
+
+  const annotationSamples = Math.ceil(
+    annotationBytesPerRecord / format.bytesPerSample
+  );
+  const annotationBytes = annotationSamples * format.bytesPerSample;
+
+  return (source) =>
+    new Observable<EDFChunk>((subscriber) => {
+      let channelNames: string[] = null;
+      let samplesPerRecord = 0;
+      let recordBytes = 0;
+      let header: Buffer = null;
+      let startTime: number = null;
+      let signals: Signal[] = [];
+      let channelBuffers: number[][] = [];
+      let pendingMarkers: Marker[] = [];
+      let numberOfRecords = 0;
+
+      const init = (epoch: Epoch) => {
+        const info: any = epoch.info ?? {};
+        const samplingRate = deviceInfo?.samplingRate ?? info.samplingRate;
+        channelNames =
+          deviceInfo?.channelNames ??
+          info.channelNames ??
+          epoch.data.map((_, index) => `CH${index + 1}`);
+        samplesPerRecord = samplingRate * recordDuration;
+
+        if (!Number.isInteger(samplesPerRecord) || samplesPerRecord <= 0) {
+          throw new Error(
+            `${errors.prefix}Sampling rate ${samplingRate} and record duration ${recordDuration} must result in a whole number of samples per record`
+          );
+        }
+
+        startTime = info.startTime ?? Date.now();
+
+        signals = [
+          ...channelNames.map((channelName): Signal => ({
+            label: `EEG ${channelName}`,
+            dimension: "uV",
+            physicalMinimum,
+            physicalMaximum,
+            digitalMinimum: format.digitalMinimum,
+            digitalMaximum: format.digitalMaximum,
+            samplesPerRecord
+          })),
+          {
+            label: format.annotationsLabel,
+            dimension: "",
+            physicalMinimum: "-1",
+            physicalMaximum: "1",
+            digitalMinimum: format.digitalMinimum,
+            digitalMaximum: format.digitalMaximum,
+            samplesPerRecord: annotationSamples
+          }
+        ];
+
+        channelBuffers = channelNames.map(() => []);
+        recordBytes =
+          samplesPerRecord * channelNames.length * format.bytesPerSample +
+          annotationBytes;
+
+        // -1 means the number of records is unknown while recording
+        header = createHeader(
+          format,
+          signals,
+          startTime,
+          -1,
+          recordDuration,
+          patientId,
+          recordingId
+        );
+
+        subscriber.next({ offset: 0, bytes: header });
+      };
+
+      const encodeAnnotations = (recordStart: number): Buffer => {
+        const bytes = Buffer.alloc(annotationBytes);
+        // The first TAL of every record keeps the record's start time
+        const timekeeping = `${onsetOf(recordStart)}\x14\x14\x00`;
+        let tals = timekeeping;
+
+        // Markers that don't fit are carried over to the next record
+        while (pendingMarkers.length) {
+          const [marker] = pendingMarkers;
+          const onset = (marker.timestamp - startTime) / 1000;
+          const tal = `${onsetOf(onset)}\x14${sanitizeAnnotation(
+            marker.label
+          )}\x14\x00`;
+
+          if (Buffer.byteLength(tals + tal, "utf8") > annotationBytes) {
+            // Drop markers that wouldn't fit even in an empty record
+            if (tals.length === timekeeping.length) {
+              pendingMarkers.shift();
+              continue;
+            }
+            break;
+          }
+
+          tals += tal;
+          pendingMarkers.shift();
+        }
+
+        bytes.write(tals, 0);
+
+        return bytes;
+      };
+
+      const writeRecord = () => {
+        const record = Buffer.alloc(recordBytes);
+        let offset = 0;
+
+        channelBuffers.forEach((channelBuffer) => {
+          channelBuffer.splice(0, samplesPerRecord).forEach((value) => {
+            record.writeIntLE(toDigital(value), offset, format.bytesPerSample);
+            offset += format.bytesPerSample;
+          });
+        });
+
+        encodeAnnotations(numberOfRecords * recordDuration).copy(
+          record,
+          offset
+        );
+
+        subscriber.next({
+          offset: header.length + numberOfRecords * recordBytes,
+          bytes: record
+        });
+
+        numberOfRecords++;
+      };
+
+      const markersSubscription = markers$.subscribe((marker) => {
+        pendingMarkers.push(marker);
+      });
+
+      const sourceSubscription = source.subscribe({
+        next: (epoch) => {
+          try {
+            if (!header) {
+              init(epoch);
+            }
+
+            channelBuffers.forEach((channelBuffer, channelIndex) => {
+              channelBuffer.push(...(epoch.data[channelIndex] ?? []));
+            });
+
+            while (channelBuffers[0].length >= samplesPerRecord) {
+              writeRecord();
+            }
+          } catch (error) {
+            subscriber.error(error);
+          }
+        },
+        error: (error) => subscriber.error(error),
+        complete: () => {
+          if (!header) {
+            subscriber.complete();
+            return;
+          }
+
+          // Pad the last records with zeros until all samples and
+          // markers are written
+          while (channelBuffers[0].length || pendingMarkers.length) {
+            channelBuffers.forEach((channelBuffer) => {
+              channelBuffer.push(
+                ...new Array(samplesPerRecord - channelBuffer.length).fill(0)
+              );
+            });
+            writeRecord();
+          }
+
+          subscriber.next({
+            offset: NUMBER_OF_RECORDS_OFFSET,
+            bytes: Buffer.from(ascii(numberOfRecords, 8), "ascii")
+          });
+          subscriber.complete();
+        }
+      });
+
+      return () => {
+        markersSubscription.unsubscribe();
+        sourceSubscription.unsubscribe();
+      };
+    });
+}
@@ -0,0 +1,102 @@
+import { pipe } from "rxjs";
+import { map, scan, startWith } from "rxjs/operators";
+
+import { SignalQuality, ChannelQuality } from "../types/signalQuality";
+import { Fitting, FittingOptions, FittingState } from "../types/fitting";
+import { ChannelFitting } from "../types/fitting";
+
+const defaultOptions = {
+  requiredStatus: "good" as FittingOptions["requiredStatus"],
+  stableDuration: 5000
+};
+
+const statusRank: { [status in ChannelQuality["status"]]: number } = {
+  noContact: 0,
+  bad: 1,
+  good: 2,
+  great: 3
+};
+
+const guidanceByStatus: { [status in ChannelQuality["status"]]: string } = {
+  noContact: "Move hair aside and press the sensor against the scalp",
+  bad: "Wiggle the sensor until it sits firmly on the scalp",
+  good: "Hold still",
+  great: "Great contact"
+};
+
+const waiting: Fitting = {
+  state: "waiting",
+  channels: {},
+  readyChannels: 0,
+  totalChannels: 0,
+  stableFor: 0
+};
+
+/**
+ * @hidden
+ * Turns signal quality into fitting states. `now` is injectable so the
+ * stable duration can be measured against any clock.
+ */
+export function toFitting(
+  options: FittingOptions = {},
+  now: () => number = Date.now
+) {
+  const { requiredStatus, stableDuration } = { ...defaultOptions, ...options };
+
+  return pipe(
+    scan(
+      (
+        [, stableSince]: [Fitting, number | null],
+        signalQuality: SignalQuality
+      ): [Fitting, number | null] => {
+        const channels = Object.entries(signalQuality ?? {}).reduce(
+          (channels, [channelName, quality]) => {
+            const isReady =
+              statusRank[quality?.status] >= statusRank[requiredStatus];
+
+            return {
+              ...channels,
+              [channelName]: {
+                ...quality,
+                isReady,
+                guidance: guidanceByStatus[quality?.status] ?? ""
+              }
+            };
+          },
+          {} as { [channelName: string]: ChannelFitting }
+        );
+
+        const values = Object.values(channels);
+        const readyChannels = values.filter(({ isReady }) => isReady).length;
+        const hasContact = values.some(({ status }) => status !== "noContact");
+        const isReady = !!values.length && readyChannels === values.length;
+        const time = now();
+        const since = isReady ? stableSince ?? time : null;
+        const stableFor = isReady ? time - since : 0;
+
+        let state: FittingState = "stable";
+        if (!hasContact) {
+          state = "waiting";
+        } else if (!isReady) {
+          state = "adjusting";
+        } else if (stableFor >= stableDuration) {
+          state = "ready";
+        }
+
+        return [
+          {
+            state,
+            channels,
+            readyChannels,
+            totalChannels: values.length,
+            stableFor
+          },
+          since
+        ];
+      },
+      [waiting, null]
+    ),
+    map(([fitting]: [Fitting, number | null]) => fitting),
+    startWith(waiting)
+  );
+}
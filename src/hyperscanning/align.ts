@@ -0,0 +1,227 @@
+import { Observable } from "rxjs";
+
+import { Epoch } from "../types/brainwaves";
+import {
+  AlignSource,
+  AlignOptions,
+  AlignedEpoch
+} from "../types/hyperscanning";
+
+const defaultOptions = {
+  frameSize: 16,
+  maxLatency: 1000
+};
+
+/**
+ * @hidden
+ * Samples of a single device in local time, trimmed as frames are emitted
+ */
+type DeviceBuffer = {
+  deviceId: string;
+  channelNames: string[] | null;
+  times: number[];
+  values: number[][];
+  offset: number;
+};
+
+/**
+ * Aligns raw epochs from several devices onto a common local timeline and
+ * emits combined frames. Sample times are mapped to the local clock with each
+ * device's timesync offset, then every device is linearly interpolated at the
+ * frame's sampling times. Gaps longer than two samples are filled with `NaN`.
+ *
+ * Frames are emitted once every device has streamed past the end of the frame,
+ * or after `maxLatency` if a device stalls.
+ *
+ * @example
+ * alignEpochs([
+ *   { deviceId: "a", epochs: crownA.brainwaves("raw"), timesyncOffset: () => crownA.getTimesyncOffset() },
+ *   { deviceId: "b", epochs: crownB.brainwaves("raw"), timesyncOffset: () => crownB.getTimesyncOffset() }
+ * ]).subscribe((frame) => {});
+ *
+ * @param {Array} sources
+ * @param {Object} options
+ * @returns {Observable<AlignedEpoch>}
+ */
+export function alignEpochs(
+  sources: AlignSource[],
+  options: AlignOptions = {}
+): Observable<AlignedEpoch> {
+  const { frameSize, maxLatency, ...rest } = {
+    ...defaultOptions,
+    ...options
+  };
+
+  return new Observable<AlignedEpoch>((subscriber) => {
+    const buffers: DeviceBuffer[] = sources.map((source) => ({
+      deviceId: source.deviceId,
+      channelNames: source.channelNames ?? null,
+      times: [],
+      values: [],
+      offset: 0
+    }));
+
+    let samplingRate: number = rest.samplingRate;
+    let gridTime: number = null;
+    let completed = 0;
+
+    const resolveOffset = (source: AlignSource): number =>
+      typeof source.timesyncOffset === "function"
+        ? source.timesyncOffset()
+        : (source.timesyncOffset ?? 0);
+
+    const addEpoch = (index: number, epoch: Epoch) => {
+      const buffer = buffers[index];
+      const rate = epoch.info.samplingRate;
+      const offset = resolveOffset(sources[index]);
+      const lastTime = buffer.times[buffer.times.length - 1] ?? -Infinity;
+
+      samplingRate = samplingRate ?? rate;
+      buffer.offset = offset;
+      buffer.channelNames =
+        buffer.channelNames ??
+        epoch.data.map((_, channelIndex) => `CH${channelIndex + 1}`);
+
+      const sampleCount = epoch.data[0]?.length ?? 0;
+      for (let k = 0; k < sampleCount; k++) {
+        const time = epoch.info.startTime + offset + (k * 1000) / rate;
+
+        // An offset update can move time backwards, keep the buffer sorted
+        if (time <= lastTime) {
+          continue;
+        }
+
+        buffer.times.push(time);
+        buffer.values.push(epoch.data.map((channel) => channel[k]));
+      }
+    };
+
+    const sampleAt = (buffer: DeviceBuffer, time: number, step: number) => {
+      const { times, values } = buffer;
+      const channelCount = buffer.channelNames.length;
+      const missing = new Array(channelCount).fill(NaN);
+      const next = times.findIndex((sampleTime) => sampleTime >= time);
+
+      if (next === -1) {
+        return missing;
+      }
+
+      if (times[next] === time) {
+        return values[next];
+      }
+
+      const previous = next - 1;
+      if (previous < 0 || times[next] - times[previous] > 2 * step) {
+        return missing;
+      }
+
+      const weight = (time - times[previous]) / (times[next] - times[previous]);
+      return values[previous].map(
+        (value, channelIndex) =>
+          value + (values[next][channelIndex] - value) * weight
+      );
+    };
+
+    const closestSampleDrift = (buffer: DeviceBuffer, time: number) =>
+      buffer.times.reduce(
+        (closest, sampleTime) =>
+          Math.abs(sampleTime - time) < Math.abs(closest)
+            ? sampleTime - time
+            : closest,
+        Infinity
+      );
+
+    const emitFrame = (step: number) => {
+      const frameTimes = Array.from(
+        { length: frameSize },
+        (_, index) => gridTime + index * step
+      );
+
+      const data: number[][] = [];
+      const channelNames: string[] = [];
+      const drift = {};
+      const offsets = {};
+
+      buffers.forEach((buffer) => {
+        const samples = frameTimes.map((time) => sampleAt(buffer, time, step));
+
+        buffer.channelNames.forEach((channelName, channelIndex) => {
+          channelNames.push(`${buffer.deviceId}:${channelName}`);
+          data.push(samples.map((sample) => sample[channelIndex]));
+        });
+
+        drift[buffer.deviceId] = closestSampleDrift(buffer, gridTime);
+        offsets[buffer.deviceId] = buffer.offset;
+      });
+
+      subscriber.next({
+        data,
+        info: {
+          samplingRate,
+          startTime: gridTime,
+          channelNames,
+          drift,
+          offsets
+        }
+      });
+
+      gridTime += frameSize * step;
+
+      // Keep the last sample before the next frame for interpolation
+      buffers.forEach((buffer) => {
+        const next = buffer.times.findIndex((time) => time >= gridTime);
+        const keepFrom = next === -1 ? buffer.times.length - 1 : next - 1;
+        if (keepFrom > 0) {
+          buffer.times.splice(0, keepFrom);
+          buffer.values.splice(0, keepFrom);
+        }
+      });
+    };
+
+    const flush = () => {
+      if (buffers.some((buffer) => !buffer.times.length)) {
+        return;
+      }
+
+      const step = 1000 / samplingRate;
+      const lastTimes = buffers.map(
+        (buffer) => buffer.times[buffer.times.length - 1]
+      );
+
+      if (gridTime === null) {
+        gridTime = Math.max(...buffers.map((buffer) => buffer.times[0]));
+      }
+
+      for (;;) {
+        const frameEnd = gridTime + (frameSize - 1) * step;
+        const ready = lastTimes.every((time) => time >= frameEnd);
+        const stalled = Math.max(...lastTimes) - frameEnd >= maxLatency;
+
+        if (!ready && !stalled) {
+          break;
+        }
+
+        emitFrame(step);
+      }
+    };
+
+    const subscriptions = sources.map((source, index) =>
+      source.epochs.subscribe({
+        next: (epoch) => {
+          addEpoch(index, epoch);
+          flush();
+        },
+        error: (error) => subscriber.error(error),
+        complete: () => {
+          if (++completed === sources.length) {
+            subscriber.complete();
+          }
+        }
+      })
+    );
+
+    return () => {
+      subscriptions.forEach((subscription) => subscription.unsubscribe());
+    };
+  });
+}
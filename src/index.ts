@@ -1,3 +1,31 @@
 export * from "./Neurosity";
 export * from "./api/bluetooth";
 export * from "./types/streaming";
+export * from "./api/firebase/inMemoryDeviceStore";
+export * from "./api/firebase/inMemoryUserStore";
+export * from "./recording/Replay";
+export { parseSession } from "./recording/record";
+export * from "./types/recording";
+export * from "./export";
+export * from "./lsl";
+export * from "./types/lsl";
+export * from "./utils/pipes";
+export * from "./types/metrics";
+export * from "./hyperscanning";
+export * from "./types/hyperscanning";
+export * from "./types/streamHealth";
+export * from "./types/artifacts";
+export * from "./types/signalQuality";
+export * from "./types/fitting";
+export * from "./neurofeedback";
+export * from "./types/neurofeedback";
+export * from "./calibration";
+export * from "./types/calibration";
+export * from "./erp";
+export * from "./types/erp";
+export * from "./trials";
+export * from "./types/trials";
+export * from "./experiments";
+export * from "./types/experiment";
+export * from "./classifiers";
+export * from "./types/classifiers";
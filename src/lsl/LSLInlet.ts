@@ -0,0 +1,151 @@
+import { Observable } from "rxjs";
+import { Buffer } from "buffer/index.js"; // not including /index.js causes typescript to uses Node's native Buffer built-in and we want to use this npm package for both node and the browser
+
+import { LSLSample } from "../types/lsl";
+import { loadNet } from "./node";
+import { decodeSample, testPatternSample, PROTOCOL_VERSION } from "./protocol";
+import { parseInfo } from "./streamInfo";
+import * as errors from "../utils/errors";
+
+/**
+ * @hidden
+ */
+type LSLInletOptions = {
+  host?: string;
+  port: number;
+};
+
+/**
+ * @hidden
+ */
+async function request(
+  { host = "127.0.0.1", port }: LSLInletOptions,
+  message: string
+): Promise<string> {
+  const net = await loadNet();
+
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    const socket = net.connect(port, host, () => {
+      socket.write(message);
+    });
+
+    socket.on("data", (chunk) => chunks.push(chunk));
+    socket.on("error", reject);
+    socket.on("end", () => {
+      resolve(Buffer.concat(chunks).toString("utf8"));
+    });
+  });
+}
+
+/**
+ * @hidden
+ * Minimal LSL inlet used to verify outlets without liblsl. Fetches the full
+ * info, opens a protocol 1.10 stream feed, validates the test pattern and
+ * emits the decoded samples.
+ */
+export class LSLInlet {
+  constructor(private options: LSLInletOptions) {}
+
+  public fullInfo(): Promise<string> {
+    return request(this.options, "LSL:fullinfo\r\n");
+  }
+
+  public shortInfo(query = ""): Promise<string> {
+    return request(this.options, `LSL:shortinfo\r\n${query}\r\n`);
+  }
+
+  public samples(): Observable<LSLSample> {
+    return new Observable((subscriber) => {
+      const { host = "127.0.0.1", port } = this.options;
+      let socket = null;
+      let buffer = Buffer.alloc(0);
+      let headersRead = false;
+      let testSamplesRead = 0;
+
+      Promise.all([this.fullInfo(), loadNet()])
+        .then(([xml, net]) => {
+          const { uid, channelCount, channelFormat } = parseInfo(xml);
+
+          socket = net.connect(port, host, () => {
+            socket.write(
+              [
+                `LSL:streamfeed/${PROTOCOL_VERSION} ${uid}`,
+                "Native-Byte-Order: 1234",
+                "Endian-Performance: 0",
+                "Has-IEEE754-Floats: 1",
+                "Supports-Subnormals: 0",
+                `Value-Size: ${channelFormat === "double64" ? 8 : 4}`,
+                `Data-Protocol-Version: ${PROTOCOL_VERSION}`,
+                "",
+                ""
+              ].join("\r\n")
+            );
+          });
+
+          socket.on("data", (chunk) => {
+            buffer = Buffer.concat([buffer, Buffer.from(chunk)]);
+
+            if (!headersRead) {
+              const end = buffer.indexOf("\r\n\r\n");
+              if (end < 0) {
+                return;
+              }
+
+              const [status] = buffer.toString("latin1", 0, end).split("\r\n");
+
+              if (!status.includes("200 OK")) {
+                subscriber.error(
+                  new Error(`${errors.prefix}LSL stream feed failed: ${status}`)
+                );
+                return;
+              }
+
+              headersRead = true;
+              buffer = buffer.slice(end + 4);
+            }
+
+            let decoded = decodeSample(buffer, channelCount, channelFormat);
+
+            while (decoded) {
+              buffer = buffer.slice(decoded.bytesRead);
+
+              if (testSamplesRead < 2) {
+                const offset = testSamplesRead === 0 ? 4 : 2;
+                const expected = testPatternSample(
+                  channelCount,
+                  channelFormat,
+                  offset
+                );
+
+                if (
+                  JSON.stringify(decoded.sample) !== JSON.stringify(expected)
+                ) {
+                  subscriber.error(
+                    new Error(
+                      `${errors.prefix}LSL test-pattern samples do not match`
+                    )
+                  );
+                  return;
+                }
+
+                testSamplesRead++;
+              } else {
+                subscriber.next(decoded.sample);
+              }
+
+              decoded = decodeSample(buffer, channelCount, channelFormat);
+            }
+          });
+
+          socket.on("error", (error) => subscriber.error(error));
+          socket.on("end", () => subscriber.complete());
+        })
+        .catch((error) => subscriber.error(error));
+
+      return () => {
+        socket?.destroy();
+      };
+    });
+  }
+}
@@ -0,0 +1,371 @@
+import type { Server, Socket } from "net";
+import type { Socket as UDPSocket, RemoteInfo } from "dgram";
+
+import { LSLOutletOptions, LSLSample, LSLStreamInfo } from "../types/lsl";
+import { loadDgram, loadNet, loadOs } from "./node";
+import { encodeSample, localClock, testPatternSample } from "./protocol";
+import { MULTICAST_ADDRESSES, MULTICAST_PORT } from "./protocol";
+import { PROTOCOL_VERSION } from "./protocol";
+import { LSLServerInfo, matchesQuery } from "./streamInfo";
+import { toFullInfo, toShortInfo } from "./streamInfo";
+import * as errors from "../utils/errors";
+
+const defaultOptions: LSLOutletOptions = {
+  port: 0,
+  host: "0.0.0.0",
+  discovery: true,
+  sessionId: "default"
+};
+
+const randomUID = () =>
+  "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (char) => {
+    const random = (Math.random() * 16) | 0;
+    return (char === "x" ? random : (random & 0x3) | 0x8).toString(16);
+  });
+
+/**
+ * Node only. Serves a stream over the Lab Streaming Layer protocol 1.10, so
+ * LSL inlets and LabRecorder can resolve it and subscribe to its samples.
+ *
+ * ```typescript
+ * const outlet = new LSLOutlet({
+ *   name: "Crown",
+ *   type: "EEG",
+ *   channelCount: 8,
+ *   nominalSrate: 256,
+ *   channelFormat: "float32",
+ *   sourceId: deviceId
+ * });
+ *
+ * await outlet.open();
+ * outlet.pushSample([1, 2, 3, 4, 5, 6, 7, 8]);
+ * ```
+ */
+export class LSLOutlet {
+  public readonly info: LSLStreamInfo;
+
+  /**
+   * @hidden
+   */
+  protected options: LSLOutletOptions;
+
+  /**
+   * @hidden
+   */
+  protected server: LSLServerInfo;
+
+  /**
+   * @hidden
+   */
+  private tcpServer: Server;
+
+  /**
+   * @hidden
+   */
+  private udpSockets: UDPSocket[] = [];
+
+  /**
+   * @hidden
+   */
+  private clients = new Set<Socket>();
+
+  constructor(info: LSLStreamInfo, options: LSLOutletOptions = {}) {
+    this.info = info;
+    this.options = {
+      ...defaultOptions,
+      ...options
+    };
+  }
+
+  /**
+   * Port of the TCP data server, available once the outlet is open
+   */
+  get port(): number {
+    return this.server?.port ?? null;
+  }
+
+  get shortInfo(): string {
+    return toShortInfo(this.info, this.server);
+  }
+
+  get fullInfo(): string {
+    return toFullInfo(this.info, this.server);
+  }
+
+  /**
+   * Number of inlets currently subscribed to the stream feed
+   */
+  get consumerCount(): number {
+    return this.clients.size;
+  }
+
+  public async open(): Promise<void> {
+    if (this.tcpServer) {
+      return;
+    }
+
+    const net = await loadNet();
+    const os = await loadOs();
+
+    this.tcpServer = net.createServer((socket) => this.onConnection(socket));
+
+    await new Promise<void>((resolve, reject) => {
+      this.tcpServer.once("error", reject);
+      this.tcpServer.listen(this.options.port, this.options.host, () => {
+        this.tcpServer.off("error", reject);
+        resolve();
+      });
+    });
+
+    const address = this.tcpServer.address();
+    const port = typeof address === "object" ? address.port : null;
+
+    this.server = {
+      uid: randomUID(),
+      sessionId: this.options.sessionId,
+      hostname: os.hostname(),
+      createdAt: localClock(),
+      port
+    };
+
+    // The time service shares the port number of the data server
+    await this.openUDP(port, (message, remote, socket) =>
+      this.onServiceMessage(message, remote, socket)
+    );
+
+    if (this.options.discovery) {
+      await this.openUDP(
+        MULTICAST_PORT,
+        (message, remote, socket) =>
+          this.onServiceMessage(message, remote, socket),
+        true
+      ).catch((error) => {
+        console.warn(
+          `${errors.prefix}LSL discovery unavailable: ${error?.message}`
+        );
+      });
+    }
+  }
+
+  /**
+   * @param data One value per channel
+   * @param timestamp LSL local clock time in seconds. Defaults to now.
+   */
+  public pushSample(
+    data: (number | string)[],
+    timestamp: number = localClock()
+  ): void {
+    if (!this.clients.size) {
+      return;
+    }
+
+    const bytes = encodeSample(
+      { timestamp, data },
+      this.info.channelFormat
+    );
+
+    this.clients.forEach((socket) => {
+      socket.write(bytes);
+    });
+  }
+
+  public pushChunk(samples: LSLSample[]): void {
+    samples.forEach((sample) => {
+      this.pushSample(sample.data, sample.timestamp);
+    });
+  }
+
+  public async close(): Promise<void> {
+    this.clients.forEach((socket) => {
+      socket.destroy();
+    });
+    this.clients.clear();
+
+    this.udpSockets.forEach((socket) => {
+      socket.close();
+    });
+    this.udpSockets = [];
+
+    if (this.tcpServer) {
+      const tcpServer = this.tcpServer;
+      this.tcpServer = null;
+      await new Promise((resolve) => tcpServer.close(resolve));
+    }
+  }
+
+  /**
+   * @hidden
+   */
+  private async openUDP(
+    port: number,
+    onMessage: (message: Buffer, remote: RemoteInfo, socket: UDPSocket) => void,
+    multicast = false
+  ): Promise<void> {
+    const dgram = await loadDgram();
+    const socket = dgram.createSocket({ type: "udp4", reuseAddr: multicast });
+
+    socket.on("message", (message, remote) =>
+      onMessage(message, remote, socket)
+    );
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once("error", reject);
+      socket.bind(port, () => {
+        socket.off("error", reject);
+        resolve();
+      });
+    });
+
+    // Errors after binding, like unreachable resolvers, are not fatal
+    socket.on("error", () => {});
+
+    if (multicast) {
+      MULTICAST_ADDRESSES.forEach((address) => {
+        try {
+          socket.addMembership(address);
+        } catch {
+          // multicast may be unavailable on some interfaces
+        }
+      });
+    }
+
+    this.udpSockets.push(socket);
+  }
+
+  /**
+   * @hidden
+   * Handles resolver queries and time correction requests
+   */
+  private onServiceMessage(
+    message: Buffer,
+    remote: RemoteInfo,
+    socket: UDPSocket
+  ): void {
+    const receivedAt = localClock();
+    const [method, ...lines] = message.toString("utf8").split("\r\n");
+
+    if (method === "LSL:shortinfo") {
+      const [query, returnAddress = ""] = lines;
+      const [returnPort, queryId] = returnAddress.trim().split(/\s+/);
+
+      if (!returnPort || !matchesQuery(this.info, this.server, query)) {
+        return;
+      }
+
+      socket.send(
+        `${queryId}\r\n${this.shortInfo}`,
+        Number(returnPort),
+        remote.address
+      );
+      return;
+    }
+
+    if (method === "LSL:timedata") {
+      const [waveId, t0] = (lines[0] ?? "").trim().split(/\s+/);
+      socket.send(
+        ` ${waveId} ${t0} ${receivedAt} ${localClock()}`,
+        remote.port,
+        remote.address
+      );
+    }
+  }
+
+  /**
+   * @hidden
+   */
+  private onConnection(socket: Socket): void {
+    let request = "";
+
+    const respond = (response: string) => {
+      socket.end(response);
+    };
+
+    const onData = (chunk: Buffer) => {
+      request += chunk.toString("latin1");
+
+      const [method] = request.split("\r\n");
+
+      if (!request.includes("\r\n")) {
+        return;
+      }
+
+      if (method === "LSL:fullinfo") {
+        respond(this.fullInfo);
+        return;
+      }
+
+      if (method === "LSL:shortinfo") {
+        const [, query] = request.split("\r\n");
+
+        if (request.split("\r\n").length < 3) {
+          return;
+        }
+
+        if (matchesQuery(this.info, this.server, query)) {
+          respond(this.shortInfo);
+        } else {
+          socket.end();
+        }
+        return;
+      }
+
+      if (method.startsWith(`LSL:streamfeed/${PROTOCOL_VERSION}`)) {
+        if (!request.includes("\r\n\r\n")) {
+          return;
+        }
+
+        socket.off("data", onData);
+        this.openStreamFeed(socket, method);
+        return;
+      }
+
+      // Protocol 1.00 feeds and unknown methods are not supported
+      respond(`LSL/${PROTOCOL_VERSION} 400 Request not understood\r\n\r\n`);
+    };
+
+    socket.on("data", onData);
+    socket.on("error", () => {
+      this.clients.delete(socket);
+    });
+    socket.on("close", () => {
+      this.clients.delete(socket);
+    });
+  }
+
+  /**
+   * @hidden
+   */
+  private openStreamFeed(socket: Socket, requestLine: string): void {
+    const [, uid] = requestLine.split(" ");
+    const { channelCount, channelFormat } = this.info;
+
+    if (uid && uid !== this.server.uid) {
+      socket.end(`LSL/${PROTOCOL_VERSION} 404 Not found\r\n\r\n`);
+      return;
+    }
+
+    socket.setNoDelay(true);
+    socket.write(
+      [
+        `LSL/${PROTOCOL_VERSION} 200 OK`,
+        `UID: ${this.server.uid}`,
+        "Byte-Order: 1234",
+        "Suppress-Subnormals: 0",
+        `Data-Protocol-Version: ${PROTOCOL_VERSION}`,
+        "",
+        ""
+      ].join("\r\n")
+    );
+
+    [4, 2].forEach((offset) => {
+      socket.write(
+        encodeSample(
+          testPatternSample(channelCount, channelFormat, offset),
+          channelFormat
+        )
+      );
+    });
+
+    this.clients.add(socket);
+  }
+}
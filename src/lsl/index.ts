@@ -0,0 +1,3 @@
+export * from "./LSLOutlet";
+export * from "./LSLInlet";
+export * from "./publish";
@@ -0,0 +1,34 @@
+import { isNode } from "../utils/is-node";
+import * as errors from "../utils/errors";
+
+/**
+ * @hidden
+ * Node built-ins are imported lazily so browser bundles never resolve them.
+ * `require` is not defined in the ES module build, and TypeScript rewrites
+ * `import()` for the CommonJS build, so the native dynamic import is created
+ * at runtime to work with both.
+ */
+async function importNodeModule<T>(name: string): Promise<T> {
+  if (!isNode()) {
+    throw new Error(`${errors.prefix}LSL is only supported in Node.`);
+  }
+
+  const dynamicImport = new Function("name", "return import(name)");
+  return await dynamicImport(name);
+}
+
+/**
+ * @hidden
+ */
+export const loadNet = () => importNodeModule<typeof import("net")>("net");
+
+/**
+ * @hidden
+ */
+export const loadDgram = () =>
+  importNodeModule<typeof import("dgram")>("dgram");
+
+/**
+ * @hidden
+ */
+export const loadOs = () => importNodeModule<typeof import("os")>("os");
@@ -0,0 +1,187 @@
+import { Buffer } from "buffer/index.js"; // not including /index.js causes typescript to uses Node's native Buffer built-in and we want to use this npm package for both node and the browser
+
+import { LSLChannelFormat, LSLSample } from "../types/lsl";
+
+/**
+ * @hidden
+ */
+export const PROTOCOL_VERSION = 110;
+
+/**
+ * @hidden
+ */
+export const MULTICAST_PORT = 16571;
+
+/**
+ * @hidden
+ * Link-local and site-local groups liblsl resolvers send queries to
+ */
+export const MULTICAST_ADDRESSES = ["224.0.0.183", "239.255.172.215"];
+
+/**
+ * @hidden
+ */
+export const TAG_DEDUCED_TIMESTAMP = 1;
+
+/**
+ * @hidden
+ */
+export const TAG_TRANSMITTED_TIMESTAMP = 2;
+
+// Timestamp of the test-pattern samples sent when a stream feed opens
+const TEST_PATTERN_TIMESTAMP = 123456.789;
+
+const valueSizes: { [format in LSLChannelFormat]: number } = {
+  float32: 4,
+  double64: 8,
+  string: 0
+};
+
+/**
+ * @hidden
+ * Monotonic clock in seconds, equivalent to `lsl_local_clock()`
+ */
+export function localClock(): number {
+  const [seconds, nanoseconds] = process.hrtime();
+  return seconds + nanoseconds / 1e9;
+}
+
+/**
+ * @hidden
+ * Maps a unix timestamp in milliseconds to the LSL local clock
+ */
+export function toLocalClock(timestamp: number): number {
+  return localClock() - (Date.now() - timestamp) / 1000;
+}
+
+const encodeString = (value: string): Buffer => {
+  const bytes = Buffer.from(String(value), "utf8");
+
+  if (bytes.length <= 0xff) {
+    return Buffer.concat([Buffer.from([1, bytes.length]), bytes]);
+  }
+
+  const length = Buffer.alloc(5);
+  length.writeUInt8(4, 0);
+  length.writeUInt32LE(bytes.length, 1);
+  return Buffer.concat([length, bytes]);
+};
+
+/**
+ * @hidden
+ * Serializes a sample in the little endian protocol 1.10 format: a timestamp
+ * tag, the timestamp as a double and the channel values
+ */
+export function encodeSample(
+  sample: LSLSample,
+  channelFormat: LSLChannelFormat
+): Buffer {
+  const header = Buffer.alloc(9);
+  header.writeUInt8(TAG_TRANSMITTED_TIMESTAMP, 0);
+  header.writeDoubleLE(sample.timestamp, 1);
+
+  if (channelFormat === "string") {
+    return Buffer.concat([
+      header,
+      ...sample.data.map((value) => encodeString(String(value)))
+    ]);
+  }
+
+  const valueSize = valueSizes[channelFormat];
+  const data = Buffer.alloc(sample.data.length * valueSize);
+
+  sample.data.forEach((value, index) => {
+    if (channelFormat === "float32") {
+      data.writeFloatLE(Number(value), index * valueSize);
+    } else {
+      data.writeDoubleLE(Number(value), index * valueSize);
+    }
+  });
+
+  return Buffer.concat([header, data]);
+}
+
+/**
+ * @hidden
+ * Inlets validate the connection by comparing two test-pattern samples,
+ * generated with offsets 4 and 2, against their own
+ */
+export function testPatternSample(
+  channelCount: number,
+  channelFormat: LSLChannelFormat,
+  offset: number
+): LSLSample {
+  const data = Array.from({ length: channelCount }, (_, k) => {
+    const sign = k % 2 === 0 ? 1 : -1;
+    return channelFormat === "string"
+      ? String((k + 10) * sign)
+      : (k + offset) * sign;
+  });
+
+  return { timestamp: TEST_PATTERN_TIMESTAMP, data };
+}
+
+/**
+ * @hidden
+ * Decodes one sample from the start of `buffer`. Returns null when the buffer
+ * doesn't hold a full sample yet.
+ */
+export function decodeSample(
+  buffer: Buffer,
+  channelCount: number,
+  channelFormat: LSLChannelFormat
+): { sample: LSLSample; bytesRead: number } | null {
+  if (buffer.length < 1) {
+    return null;
+  }
+
+  const tag = buffer.readUInt8(0);
+  let offset = 1;
+  let timestamp: number = null;
+
+  if (tag === TAG_TRANSMITTED_TIMESTAMP) {
+    if (buffer.length < 9) {
+      return null;
+    }
+    timestamp = buffer.readDoubleLE(1);
+    offset = 9;
+  }
+
+  const data = [];
+
+  for (let channel = 0; channel < channelCount; channel++) {
+    if (channelFormat === "string") {
+      if (buffer.length < offset + 1) {
+        return null;
+      }
+      const lengthSize = buffer.readUInt8(offset);
+      if (buffer.length < offset + 1 + lengthSize) {
+        return null;
+      }
+      const length =
+        lengthSize === 1
+          ? buffer.readUInt8(offset + 1)
+          : buffer.readUInt32LE(offset + 1);
+      const start = offset + 1 + lengthSize;
+      if (buffer.length < start + length) {
+        return null;
+      }
+      data.push(buffer.toString("utf8", start, start + length));
+      offset = start + length;
+      continue;
+    }
+
+    const valueSize = valueSizes[channelFormat];
+    if (buffer.length < offset + valueSize) {
+      return null;
+    }
+    data.push(
+      channelFormat === "float32"
+        ? buffer.readFloatLE(offset)
+        : buffer.readDoubleLE(offset)
+    );
+    offset += valueSize;
+  }
+
+  return { sample: { timestamp, data }, bytesRead: offset };
+}
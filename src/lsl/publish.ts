@@ -0,0 +1,179 @@
+import { Observable, Subscription } from "rxjs";
+
+import { Epoch } from "../types/brainwaves";
+import { Accelerometer } from "../types/accelerometer";
+import { DeviceInfo } from "../types/deviceInfo";
+import { Marker } from "../types/marker";
+import { LSLOptions, LSLStreamName } from "../types/lsl";
+import { LSLOutlet } from "./LSLOutlet";
+import { toLocalClock } from "./protocol";
+
+/**
+ * @hidden
+ */
+type PublishDependencies = {
+  deviceInfo: DeviceInfo;
+  raw: () => Observable<Epoch>;
+  accelerometer: () => Observable<Accelerometer>;
+  markers: () => Observable<Marker>;
+};
+
+export interface LSLPublisher {
+  outlets: Partial<Record<LSLStreamName, LSLOutlet>>;
+  close(): Promise<void>;
+}
+
+const ACCELEROMETER_AXES = ["x", "y", "z"];
+
+/**
+ * @hidden
+ * Opens one outlet per stream and republishes every emission as LSL samples,
+ * with timestamps mapped to the LSL local clock
+ */
+export async function publishToLSL(
+  dependencies: PublishDependencies,
+  options: LSLOptions = {}
+): Promise<LSLPublisher> {
+  const { deviceInfo } = dependencies;
+  const {
+    streams = ["raw", "accelerometer", "markers"],
+    ...outletOptions
+  } = options;
+  const { deviceId, deviceNickname, channelNames, samplingRate } = deviceInfo;
+  const name = deviceNickname ?? deviceId;
+
+  const outlets: Partial<Record<LSLStreamName, LSLOutlet>> = {};
+  const subscriptions: Subscription[] = [];
+
+  // Outlets can't share the data port, so only the first uses a fixed one
+  const optionsFor = (index: number) =>
+    index === 0 ? outletOptions : { ...outletOptions, port: 0 };
+
+  const subscribe = <T>(
+    stream: Observable<T>,
+    next: (value: T) => void,
+    streamName: LSLStreamName
+  ) =>
+    stream.subscribe({
+      next,
+      error: (error) => {
+        console.warn(`LSL ${streamName} stream stopped: ${error?.message}`);
+      }
+    });
+
+  for (const [index, streamName] of streams.entries()) {
+    if (streamName === "raw") {
+      const outlet = new LSLOutlet(
+        {
+          name,
+          type: "EEG",
+          channelCount: channelNames.length,
+          nominalSrate: samplingRate,
+          channelFormat: "float32",
+          sourceId: `${deviceId}-raw`,
+          manufacturer: "Neurosity",
+          channels: channelNames.map((label) => ({
+            label,
+            unit: "microvolts",
+            type: "EEG"
+          }))
+        },
+        optionsFor(index)
+      );
+
+      await outlet.open();
+      outlets.raw = outlet;
+
+      subscriptions.push(
+        subscribe(
+          dependencies.raw(),
+          (epoch) => {
+            const { startTime, samplingRate: rate = samplingRate } =
+              epoch.info;
+            const sampleCount = epoch.data[0]?.length ?? 0;
+
+            for (let k = 0; k < sampleCount; k++) {
+              outlet.pushSample(
+                epoch.data.map((channel) => channel[k]),
+                toLocalClock(startTime + (k * 1000) / rate)
+              );
+            }
+          },
+          streamName
+        )
+      );
+    }
+
+    if (streamName === "accelerometer") {
+      const outlet = new LSLOutlet(
+        {
+          name: `${name} Accelerometer`,
+          type: "Accelerometer",
+          channelCount: ACCELEROMETER_AXES.length,
+          nominalSrate: 0,
+          channelFormat: "float32",
+          sourceId: `${deviceId}-accelerometer`,
+          manufacturer: "Neurosity",
+          channels: ACCELEROMETER_AXES.map((label) => ({
+            label,
+            unit: "g",
+            type: "Accelerometer"
+          }))
+        },
+        optionsFor(index)
+      );
+
+      await outlet.open();
+      outlets.accelerometer = outlet;
+
+      subscriptions.push(
+        subscribe(
+          dependencies.accelerometer(),
+          (accelerometer) => {
+            outlet.pushSample(
+              ACCELEROMETER_AXES.map((axis) => accelerometer[axis]),
+              toLocalClock(accelerometer.timestamp ?? Date.now())
+            );
+          },
+          streamName
+        )
+      );
+    }
+
+    if (streamName === "markers") {
+      const outlet = new LSLOutlet(
+        {
+          name: `${name} Markers`,
+          type: "Markers",
+          channelCount: 1,
+          nominalSrate: 0,
+          channelFormat: "string",
+          sourceId: `${deviceId}-markers`,
+          manufacturer: "Neurosity"
+        },
+        optionsFor(index)
+      );
+
+      await outlet.open();
+      outlets.markers = outlet;
+
+      subscriptions.push(
+        subscribe(
+          dependencies.markers(),
+          (marker) => {
+            outlet.pushSample([marker.label], toLocalClock(marker.timestamp));
+          },
+          streamName
+        )
+      );
+    }
+  }
+
+  return {
+    outlets,
+    close: async () => {
+      subscriptions.forEach((subscription) => subscription.unsubscribe());
+      await Promise.all(Object.values(outlets).map((outlet) => outlet.close()));
+    }
+  };
+}
@@ -0,0 +1,159 @@
+import { LSLChannelFormat, LSLStreamInfo } from "../types/lsl";
+import { PROTOCOL_VERSION } from "./protocol";
+
+/**
+ * @hidden
+ * Fields generated by the outlet when it starts serving
+ */
+export type LSLServerInfo = {
+  uid: string;
+  sessionId: string;
+  hostname: string;
+  createdAt: number;
+  port: number;
+};
+
+const escapeXML = (value: any): string =>
+  String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const element = (name: string, value: any) =>
+  `<${name}>${escapeXML(value)}</${name}>`;
+
+function infoFields(
+  info: LSLStreamInfo,
+  server: LSLServerInfo
+): { [field: string]: string | number } {
+  return {
+    name: info.name,
+    type: info.type,
+    channel_count: info.channelCount,
+    channel_format: info.channelFormat,
+    source_id: info.sourceId,
+    nominal_srate: info.nominalSrate,
+    version: PROTOCOL_VERSION / 100,
+    created_at: server.createdAt,
+    uid: server.uid,
+    session_id: server.sessionId,
+    hostname: server.hostname
+  };
+}
+
+function toXML(info: LSLStreamInfo, server: LSLServerInfo, desc: string) {
+  const fields = Object.entries(infoFields(info, server))
+    .map(([name, value]) => `\t${element(name, value)}`)
+    .join("\n");
+
+  return [
+    `<?xml version="1.0"?>`,
+    `<info>`,
+    fields,
+    `\t<v4address />`,
+    `\t${element("v4data_port", server.port)}`,
+    `\t${element("v4service_port", server.port)}`,
+    `\t<v6address />`,
+    `\t${element("v6data_port", 0)}`,
+    `\t${element("v6service_port", 0)}`,
+    desc,
+    `</info>`,
+    ``
+  ].join("\n");
+}
+
+/**
+ * @hidden
+ * Short info answered to resolver queries, without the description
+ */
+export function toShortInfo(
+  info: LSLStreamInfo,
+  server: LSLServerInfo
+): string {
+  return toXML(info, server, `\t<desc />`);
+}
+
+/**
+ * @hidden
+ * Full info including the channel descriptions, which LabRecorder stores in
+ * the XDF stream header
+ */
+export function toFullInfo(info: LSLStreamInfo, server: LSLServerInfo): string {
+  const channels = (info.channels ?? [])
+    .map(
+      (channel) =>
+        `\t\t\t<channel>${element("label", channel.label)}${
+          channel.unit ? element("unit", channel.unit) : ""
+        }${channel.type ? element("type", channel.type) : ""}</channel>`
+    )
+    .join("\n");
+
+  const desc = [
+    `\t<desc>`,
+    info.manufacturer ? `\t\t${element("manufacturer", info.manufacturer)}` : "",
+    channels ? `\t\t<channels>\n${channels}\n\t\t</channels>` : "",
+    `\t</desc>`
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return toXML(info, server, desc);
+}
+
+/**
+ * @hidden
+ * Resolver queries are XPath predicates. Only the common form of
+ * `field='value'` conditions joined by `and` is supported.
+ */
+export function matchesQuery(
+  info: LSLStreamInfo,
+  server: LSLServerInfo,
+  query: string
+): boolean {
+  const trimmed = (query ?? "").trim();
+
+  if (!trimmed) {
+    return true;
+  }
+
+  const fields = infoFields(info, server);
+
+  return trimmed.split(/\s+and\s+/).every((condition) => {
+    const match = condition
+      .trim()
+      .replace(/^\((.*)\)$/, "$1")
+      .match(/^([a-z_]+)\s*=\s*(['"])(.*)\2$/);
+
+    if (!match) {
+      return false;
+    }
+
+    const [, field, , value] = match;
+    return field in fields && String(fields[field]) === value;
+  });
+}
+
+/**
+ * @hidden
+ * Reads the fields the inlet needs back from a stream info XML
+ */
+export function parseInfo(xml: string): {
+  uid: string;
+  channelCount: number;
+  channelFormat: LSLChannelFormat;
+  name: string;
+  type: string;
+} {
+  const read = (name: string) =>
+    xml.match(new RegExp(`<${name}>([^<]*)</${name}>`))?.[1] ?? "";
+
+  return {
+    uid: read("uid"),
+    channelCount: Number(read("channel_count")),
+    channelFormat: read("channel_format") as LSLChannelFormat,
+    name: read("name"),
+    type: read("type")
+  };
+}
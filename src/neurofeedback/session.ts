@@ -0,0 +1,223 @@
+import { Observable, pipe, defer } from "rxjs";
+import { map, tap, takeWhile } from "rxjs/operators";
+
+import { PowerByBand, BandName } from "../types/brainwaves";
+import { NeurofeedbackInput } from "../types/neurofeedback";
+import { NeurofeedbackOptions } from "../types/neurofeedback";
+import { NeurofeedbackUpdate, RewardEvent } from "../types/neurofeedback";
+import * as errors from "../utils/errors";
+
+const defaultOptions = {
+  direction: "above" as NeurofeedbackOptions["direction"],
+  rewardInterval: 1000
+};
+
+// Window used by the adaptive percentile strategy when none is given
+const DEFAULT_PERCENTILE_WINDOW = 60000;
+
+const THRESHOLD_STRATEGIES = ["fixed", "adaptivePercentile", "baseline"];
+
+const toValue = (
+  input: NeurofeedbackInput
+): { value: number; timestamp: number } => {
+  if (typeof input === "number") {
+    return { value: input, timestamp: Date.now() };
+  }
+
+  const value = "value" in input ? input.value : input.probability;
+  return { value, timestamp: input.timestamp ?? Date.now() };
+};
+
+const percentile = (values: number[], rank: number): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(
+    sorted.length - 1,
+    Math.max(0, Math.round((rank / 100) * (sorted.length - 1)))
+  );
+  return sorted[index];
+};
+
+/**
+ * Runs a neurofeedback session over a stream of metric values, e.g. the
+ * probability of `focus()`. Every value is compared with a threshold from the
+ * given strategy, and values past the threshold are rewarded at most once per
+ * `rewardInterval`. Emits the threshold, reward and session statistics for
+ * every value.
+ *
+ * @example
+ * neurosity.focus().pipe(
+ *   toNeurofeedback({
+ *     threshold: { type: "adaptivePercentile", percentile: 70 },
+ *     onReward: () => playSound()
+ *   })
+ * );
+ *
+ * @param {Object} options
+ * @returns {Observable<NeurofeedbackUpdate>}
+ */
+export const toNeurofeedback =
+  (options: NeurofeedbackOptions) =>
+  (source: Observable<NeurofeedbackInput>): Observable<NeurofeedbackUpdate> =>
+    defer(() => {
+      const { threshold, direction, rewardInterval, onReward, duration } = {
+        ...defaultOptions,
+        ...options
+      };
+
+      if (!THRESHOLD_STRATEGIES.includes(threshold?.type)) {
+        throw new Error(
+          `${errors.prefix}Invalid neurofeedback threshold strategy: ${threshold?.type}`
+        );
+      }
+
+      let startTime: number = null;
+      let previous: NeurofeedbackUpdate = null;
+      let lastRewardTime = -Infinity;
+      let history: { value: number; timestamp: number }[] = [];
+      let baseline: number = null;
+      let timeWithThreshold = 0;
+      let sum = 0;
+
+      const isPastThreshold = (value: number, limit: number) =>
+        direction === "below" ? value < limit : value > limit;
+
+      const getThreshold = (timestamp: number): number | null => {
+        switch (threshold.type) {
+          case "fixed":
+            return threshold.value;
+
+          case "adaptivePercentile": {
+            const window = threshold.window ?? DEFAULT_PERCENTILE_WINDOW;
+            history = history.filter(
+              (entry) => entry.timestamp > timestamp - window
+            );
+            return history.length
+              ? percentile(
+                  history.map((entry) => entry.value),
+                  threshold.percentile
+                )
+              : null;
+          }
+
+          case "baseline": {
+            if (baseline !== null) {
+              return baseline;
+            }
+
+            if (timestamp - startTime < threshold.duration) {
+              return null;
+            }
+
+            const values = history.map((entry) => entry.value);
+            const mean =
+              values.reduce((total, value) => total + value, 0) /
+              (values.length || 1);
+            const standardDeviation = Math.sqrt(
+              values.reduce((total, value) => total + (value - mean) ** 2, 0) /
+                (values.length || 1)
+            );
+            const offset =
+              (threshold.offset ?? 0) * (direction === "below" ? -1 : 1);
+
+            baseline = mean + offset * standardDeviation;
+            history = [];
+            return baseline;
+          }
+        }
+      };
+
+      return source.pipe(
+        map(toValue),
+        tap(({ timestamp }) => {
+          startTime = startTime ?? timestamp;
+        }),
+        takeWhile(
+          ({ timestamp }) => !duration || timestamp - startTime < duration
+        ),
+        map(({ value, timestamp }): NeurofeedbackUpdate => {
+          const limit = getThreshold(timestamp);
+          const inTarget = limit !== null && isPastThreshold(value, limit);
+          const canReward = timestamp - lastRewardTime >= rewardInterval;
+          const reward: RewardEvent | null =
+            inTarget && canReward
+              ? { timestamp, value, threshold: limit }
+              : null;
+
+          if (reward) {
+            lastRewardTime = timestamp;
+          }
+
+          // Time is attributed to the state of the previous value
+          const delta = previous ? timestamp - previous.timestamp : 0;
+          if (previous && previous.threshold !== null) {
+            timeWithThreshold += delta;
+          }
+
+          // Only the adaptive strategy and an open baseline window need history
+          const isRecordingHistory =
+            threshold.type === "adaptivePercentile" ||
+            (threshold.type === "baseline" && baseline === null);
+
+          if (isRecordingHistory) {
+            history.push({ value, timestamp });
+          }
+
+          sum += value;
+
+          const stats = previous?.stats;
+          const samples = (stats?.samples ?? 0) + 1;
+          const timeInTarget =
+            (stats?.timeInTarget ?? 0) + (previous?.inTarget ? delta : 0);
+
+          previous = {
+            timestamp,
+            value,
+            threshold: limit,
+            inTarget,
+            reward,
+            stats: {
+              startTime,
+              elapsed: timestamp - startTime,
+              samples,
+              rewards: (stats?.rewards ?? 0) + (reward ? 1 : 0),
+              timeInTarget,
+              percentInTarget: timeWithThreshold
+                ? (timeInTarget / timeWithThreshold) * 100
+                : 0,
+              mean: sum / samples,
+              min: Math.min(stats?.min ?? Infinity, value),
+              max: Math.max(stats?.max ?? -Infinity, value)
+            }
+          };
+
+          return previous;
+        }),
+        tap((update) => {
+          if (update.reward) {
+            onReward?.(update.reward);
+          }
+        })
+      );
+    });
+
+/**
+ * Ratio of the power of two bands averaged across channels, e.g. theta/beta
+ *
+ * @example
+ * neurosity.brainwaves("powerByBand").pipe(bandPowerRatio("theta", "beta"))
+ *
+ * @param {string} numerator Band name
+ * @param {string} denominator Band name
+ * @returns {Observable<number>}
+ */
+export const bandPowerRatio = (numerator: BandName, denominator: BandName) =>
+  pipe(
+    map((powerByBand: PowerByBand): number => {
+      const average = (values: number[]) =>
+        values.reduce((total, value) => total + value, 0) /
+        (values.length || 1);
+
+      const { data } = powerByBand;
+      return average(data[numerator]) / average(data[denominator]);
+    })
+  );
@@ -0,0 +1,146 @@
+import { defer, from, Observable, of, throwError, timer } from "rxjs";
+import { concatMap, filter, map, share } from "rxjs/operators";
+
+import { Accelerometer } from "../types/accelerometer";
+import { BrainwavesLabel, Epoch, PowerByBand, PSD } from "../types/brainwaves";
+import { Calm } from "../types/calm";
+import { DeviceInfo } from "../types/deviceInfo";
+import { Focus } from "../types/focus";
+import { Marker } from "../types/marker";
+import { RecordedEvent, RecordingMetric } from "../types/recording";
+import { ReplayOptions, Session } from "../types/recording";
+import { SignalQuality } from "../types/signalQuality";
+import { DeviceStatus } from "../types/status";
+import * as errors from "../utils/errors";
+import { parseSession, SESSION_VERSION } from "./record";
+
+const defaultOptions: ReplayOptions = {
+  speed: 1
+};
+
+/**
+ * Plays back a session captured with `neurosity.record()` through the same
+ * observable API as the SDK. All metrics share a single clock that starts
+ * with the first subscription, and late subscribers only get the events
+ * emitted after they subscribe, like a live device.
+ *
+ * ```typescript
+ * const replay = Neurosity.replay(fs.readFileSync("session.ndjson", "utf8"), {
+ *   speed: 2
+ * });
+ *
+ * replay.brainwaves("raw").subscribe((brainwaves) => {
+ *   console.log(brainwaves);
+ * });
+ * ```
+ */
+export class Replay {
+  /**
+   * @hidden
+   */
+  protected session: Session;
+
+  /**
+   * @hidden
+   */
+  protected options: ReplayOptions;
+
+  /**
+   * @hidden
+   */
+  private events$: Observable<RecordedEvent>;
+
+  /**
+   * @param session Session parsed with `parseSession()`, or the contents of
+   * a session file
+   * @param options
+   */
+  constructor(session: Session | string, options: ReplayOptions = {}) {
+    this.session =
+      typeof session === "string" ? parseSession(session) : session;
+
+    this.options = {
+      ...defaultOptions,
+      ...options
+    };
+
+    const { speed } = this.options;
+
+    if (!this.session?.events || this.session.version > SESSION_VERSION) {
+      throw new Error(`${errors.prefix}Invalid or unsupported session.`);
+    }
+
+    if (!(speed > 0)) {
+      throw new Error(`${errors.prefix}Replay speed must be greater than 0.`);
+    }
+
+    this.events$ = defer(() => {
+      const playbackStart = Date.now();
+
+      return from(this.session.events).pipe(
+        concatMap((event) => {
+          const offset = (event.timestamp - this.session.startTime) / speed;
+          const delay = playbackStart + offset - Date.now();
+          return delay > 0 ? timer(delay).pipe(map(() => event)) : of(event);
+        })
+      );
+    }).pipe(share());
+  }
+
+  /**
+   * @hidden
+   */
+  private _metric<T>(metric: RecordingMetric): Observable<T> {
+    if (!this.session.metrics.includes(metric)) {
+      return throwError(() => errors.metricNotRecorded(metric));
+    }
+
+    return this.events$.pipe(
+      filter((event) => event.metric === metric),
+      map((event) => event.data)
+    );
+  }
+
+  /**
+   * Device info at the time of the recording
+   */
+  public async getInfo(): Promise<DeviceInfo> {
+    return this.session.deviceInfo;
+  }
+
+  public brainwaves(
+    label: BrainwavesLabel
+  ): Observable<Epoch | PowerByBand | PSD> {
+    return this._metric(`brainwaves/${label}`);
+  }
+
+  public signalQuality(): Observable<SignalQuality> {
+    return this._metric("signalQuality");
+  }
+
+  public accelerometer(): Observable<Accelerometer> {
+    return this._metric("accelerometer");
+  }
+
+  public focus(): Observable<Focus> {
+    return this._metric("focus");
+  }
+
+  public calm(): Observable<Calm> {
+    return this._metric("calm");
+  }
+
+  public status(): Observable<DeviceStatus> {
+    return this._metric("status");
+  }
+
+  /**
+   * Markers added with `neurosity.addMarker()` during the recording
+   */
+  public markers(): Observable<Marker> {
+    return this.events$.pipe(
+      filter((event) => event.metric === "markers"),
+      map((event) => event.data)
+    );
+  }
+}
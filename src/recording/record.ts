@@ -0,0 +1,145 @@
+import { lastValueFrom, merge, Observable, timer } from "rxjs";
+import { concatMap, map, takeUntil } from "rxjs/operators";
+
+import { DeviceInfo } from "../types/deviceInfo";
+import { Marker } from "../types/marker";
+import { RecordedEvent, RecordingMetric } from "../types/recording";
+import { RecordingSummary, Session } from "../types/recording";
+import { SessionHeader, SessionWriter } from "../types/recording";
+import * as errors from "../utils/errors";
+
+/**
+ * @hidden
+ */
+export const SESSION_VERSION = 1;
+
+/**
+ * @hidden
+ */
+type RecordDependencies = {
+  streams: Partial<Record<RecordingMetric, Observable<any>>>;
+  markers$: Observable<Marker>;
+  deviceInfo: DeviceInfo | null;
+  getTimestamp: () => number;
+};
+
+/**
+ * @hidden
+ * Subscribes to all streams for `durationMs` and writes every emission to
+ * the session file as it arrives, timestamped with the provided clock. The
+ * file is newline delimited JSON: a header, one line per event and a footer
+ * with the end time. Nothing is kept in memory. Resolves once the writer has
+ * flushed the file, so it can be read right away.
+ */
+export async function record(
+  dependencies: RecordDependencies,
+  options: { durationMs: number; writer: SessionWriter }
+): Promise<RecordingSummary> {
+  const { streams, markers$, deviceInfo, getTimestamp } = dependencies;
+  const { durationMs, writer } = options;
+  const metrics = Object.keys(streams) as RecordingMetric[];
+
+  if (!(durationMs > 0)) {
+    throw new Error(`${errors.prefix}durationMs must be greater than 0.`);
+  }
+
+  if (typeof writer?.write !== "function") {
+    throw new Error(`${errors.prefix}A writer is required to record.`);
+  }
+
+  const writeLine = async (line: object) => {
+    await writer.write(`${JSON.stringify(line)}\n`);
+  };
+
+  const startTime = getTimestamp();
+  const header: SessionHeader = {
+    version: SESSION_VERSION,
+    deviceInfo,
+    startTime,
+    metrics
+  };
+
+  await writeLine(header);
+
+  const metricEvents = metrics.map((metric) =>
+    streams[metric].pipe(
+      map(
+        (data): RecordedEvent => ({
+          metric,
+          timestamp: getTimestamp(),
+          data
+        })
+      )
+    )
+  );
+
+  const markerEvents = markers$.pipe(
+    map(
+      (marker): RecordedEvent => ({
+        metric: "markers",
+        timestamp: marker.timestamp,
+        data: marker
+      })
+    )
+  );
+
+  let eventCount = 0;
+
+  await lastValueFrom(
+    merge(...metricEvents, markerEvents).pipe(
+      takeUntil(timer(durationMs)),
+      concatMap(async (event) => {
+        await writeLine(event);
+        eventCount++;
+      })
+    ),
+    { defaultValue: null }
+  );
+
+  const endTime = getTimestamp();
+
+  await writeLine({ endTime });
+
+  if (writer.end) {
+    await new Promise<void>((resolve, reject) => {
+      writer.end((error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  return { startTime, endTime, metrics, eventCount };
+}
+
+/**
+ * Parses a session file written by `neurosity.record()`. Events are sorted
+ * by timestamp, since markers are timestamped on dispatch and can be written
+ * out of order.
+ *
+ * ```typescript
+ * const session = parseSession(fs.readFileSync("session.ndjson", "utf8"));
+ * ```
+ *
+ * @param contents Newline delimited JSON of the session file
+ * @returns Parsed session
+ */
+export function parseSession(contents: string): Session {
+  const lines = contents
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line));
+
+  const [header, ...rest] = lines;
+
+  if (!header || !("version" in header)) {
+    throw new Error(`${errors.prefix}Invalid session file.`);
+  }
+
+  const events: RecordedEvent[] = rest.filter((line) => "metric" in line);
+  const footer = rest.find((line) => "endTime" in line);
+
+  return {
+    ...(header as SessionHeader),
+    // recordings that were interrupted have no footer
+    endTime: footer?.endTime ?? events[events.length - 1]?.timestamp ?? null,
+    events: events.sort((a, b) => a.timestamp - b.timestamp)
+  };
+}
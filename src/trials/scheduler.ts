@@ -0,0 +1,203 @@
+import { Observable, defer, from, timer } from "rxjs";
+import { concatMap, concatWith, map, tap } from "rxjs/operators";
+
+import { Protocol, ScheduledTrial, TrialEvent } from "../types/trials";
+import { ISI, SchedulingLatency } from "../types/trials";
+import { MarkerOptions } from "../types/marker";
+import * as errors from "../utils/errors";
+
+const defaultOptions = {
+  leadIn: 1000,
+  restBetweenBlocks: 0,
+  addMarkers: true
+};
+
+type SchedulerDependencies = {
+  addMarker: (marker: MarkerOptions) => Promise<unknown>;
+  getTimestamp: () => number;
+};
+
+/**
+ * @hidden
+ * Seeded pseudo random number generator, returns numbers between 0 and 1
+ */
+export function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * @hidden
+ * Fisher-Yates shuffle
+ */
+export function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  return shuffled;
+}
+
+const jitter = (isi: ISI, random: () => number): number =>
+  typeof isi === "number" ? isi : isi.min + random() * (isi.max - isi.min);
+
+/**
+ * Expands the blocks of a protocol into trials with their onset relative to
+ * the start of the protocol. The same seed always gives the same schedule.
+ *
+ * @param protocol
+ * @param seed
+ * @returns Scheduled trials ordered by onset
+ */
+export function createSchedule(
+  protocol: Protocol,
+  seed: number
+): ScheduledTrial[] {
+  const { blocks, isi, randomizeBlocks, leadIn, restBetweenBlocks } = {
+    ...defaultOptions,
+    ...protocol
+  };
+  const random = mulberry32(seed);
+
+  if (!blocks?.length) {
+    throw new Error(`${errors.prefix}A protocol requires at least one block.`);
+  }
+
+  const orderedBlocks = randomizeBlocks ? shuffle(blocks, random) : blocks;
+  const schedule: ScheduledTrial[] = [];
+  let offset = leadIn;
+
+  orderedBlocks.forEach((block, blockIndex) => {
+    const { name, trials, repetitions = 1, randomize = false } = block;
+
+    if (blockIndex > 0) {
+      offset += restBetweenBlocks;
+    }
+
+    let trialIndex = 0;
+
+    Array.from({ length: repetitions }).forEach(() => {
+      const orderedTrials = randomize ? shuffle(trials, random) : trials;
+
+      orderedTrials.forEach((trial) => {
+        schedule.push({
+          ...trial,
+          block: name,
+          blockIndex,
+          trialIndex: trialIndex++,
+          offset
+        });
+
+        offset += (trial.duration ?? 0) + jitter(isi, random);
+      });
+    });
+  });
+
+  if (!schedule.length) {
+    throw new Error(`${errors.prefix}A protocol requires at least one trial.`);
+  }
+
+  return schedule;
+}
+
+/**
+ * @hidden
+ */
+export function getSchedulingLatency(latencies: number[]): SchedulingLatency {
+  const count = latencies.length;
+  const mean =
+    latencies.reduce((sum, latency) => sum + latency, 0) / (count || 1);
+  const variance =
+    latencies.reduce((sum, latency) => sum + (latency - mean) ** 2, 0) /
+    (count || 1);
+
+  return {
+    count,
+    mean,
+    max: count ? Math.max(...latencies) : 0,
+    standardDeviation: Math.sqrt(variance)
+  };
+}
+
+/**
+ * @hidden
+ * Runs a protocol against the timesync clock. Onsets are scheduled relative to
+ * the start of the protocol, so scheduling latency does not accumulate across
+ * trials. Markers are stamped with the onset and dispatched without waiting
+ * for the device to respond, and every trial event reports its latency versus
+ * the requested onset.
+ */
+export function runProtocol(
+  protocol: Protocol,
+  dependencies: SchedulerDependencies
+): Observable<TrialEvent> {
+  const { addMarker, getTimestamp } = dependencies;
+  const { addMarkers } = { ...defaultOptions, ...protocol };
+
+  return defer(() => {
+    const seed = protocol.seed ?? Math.floor(Math.random() * 2 ** 32);
+    const schedule = createSchedule(protocol, seed);
+    const startTime = getTimestamp();
+    const latencies: number[] = [];
+    const lastTrial = schedule[schedule.length - 1];
+    const endTime = startTime + lastTrial.offset + (lastTrial.duration ?? 0);
+
+    return from(schedule).pipe(
+      concatMap((trial) => {
+        const requestedOnset = startTime + trial.offset;
+
+        return timer(Math.max(0, requestedOnset - getTimestamp())).pipe(
+          map((): TrialEvent => {
+            const onset = getTimestamp();
+
+            if (addMarkers) {
+              addMarker({
+                label: trial.condition,
+                timestamp: onset,
+                ...(trial.duration ? { durationMs: trial.duration } : {})
+              }).catch((error) => {
+                console.warn(
+                  `${errors.prefix}Could not add marker for trial ${
+                    trial.trialIndex
+                  } of ${trial.block}. ${error?.message ?? error}`
+                );
+              });
+            }
+
+            return {
+              type: "trial",
+              trial,
+              requestedOnset,
+              onset,
+              latency: onset - requestedOnset
+            };
+          })
+        );
+      }),
+      tap((event) => {
+        if (event.type === "trial") {
+          latencies.push(event.latency);
+        }
+      }),
+      concatWith(
+        defer(() => timer(Math.max(0, endTime - getTimestamp()))).pipe(
+          map((): TrialEvent => ({
+            type: "complete",
+            seed,
+            latency: getSchedulingLatency(latencies)
+          }))
+        )
+      )
+    );
+  });
+}
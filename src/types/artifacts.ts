@@ -0,0 +1,35 @@
+export type ArtifactType = "blink" | "jawClench" | "motion" | "electrodePop";
+
+export interface ArtifactThresholds {
+  /**
+   * Peak to peak amplitude in microvolts of frontal channels. Defaults to 100.
+   */
+  blink?: number;
+  /**
+   * RMS amplitude in microvolts above 30Hz. Defaults to 15.
+   */
+  jawClench?: number;
+  /**
+   * Deviation from 1g of the acceleration magnitude. Defaults to 0.1.
+   */
+  motion?: number;
+  /**
+   * Difference in microvolts between consecutive samples. Defaults to 150.
+   */
+  electrodePop?: number;
+}
+
+/**
+ * Artifacts found in an epoch by the `detectArtifacts` operator
+ */
+export interface EpochArtifacts {
+  labels: ArtifactType[];
+  /**
+   * Channels affected by each artifact, in the order of the epoch's channels
+   */
+  channels: { [type in ArtifactType]?: boolean[] };
+  /**
+   * Channels affected by any artifact
+   */
+  badChannels: boolean[];
+}
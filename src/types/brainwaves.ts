@@ -1,9 +1,23 @@
+import { EpochArtifacts } from "./artifacts";
+
 export type BrainwavesLabel =
   | "raw"
   | "rawUnfiltered"
   | "powerByBand"
   | "psd";
 
+/**
+ * Re-windows `raw` and `rawUnfiltered` epochs. Both values are in samples.
+ */
+export interface BrainwavesOptions {
+  epochSize: number;
+  /**
+   * Samples between the start of consecutive epochs. Defaults to
+   * `epochSize`, smaller values produce overlapping epochs.
+   */
+  hop?: number;
+}
+
 export type AmplitudeByChannel = number[][];
 
 export interface Epoch {
@@ -11,26 +25,42 @@ export interface Epoch {
   info: {
     samplingRate: number;
     startTime: number;
+    channelNames?: string[];
+    /**
+     * Marker value written by the device firmware in every sample, 0 when
+     * there is none. Only available when streaming via Bluetooth.
+     */
+    markers?: number[];
+    /**
+     * Added by the `detectArtifacts` operator
+     */
+    artifacts?: EpochArtifacts;
   };
 }
 
 export type PSDByChannel = number[][];
 
 export interface PSD {
+  label: "psd";
   psd: PSDByChannel;
   freqs: number[];
   info: {
     samplingRate: number;
     startTime: number;
+    notchFrequency?: string;
   };
 }
 
 export type BandName = "gamma" | "beta" | "alpha" | "theta" | "delta";
 
+/**
+ * Average power of every channel by band
+ */
+export type PowerByBandData = {
+  [band in BandName]: number[];
+};
+
 export interface PowerByBand {
-  gamma: number[];
-  beta: number[];
-  alpha: number[];
-  theta: number[];
-  delta: number[];
+  label: "powerByBand";
+  data: PowerByBandData;
 }
@@ -0,0 +1,43 @@
+import { BandName } from "./brainwaves";
+
+/**
+ * Metrics that can be calibrated by `neurosity.calibrate()`
+ */
+export type CalibrationMetric = "powerByBand" | "focus" | "calm";
+
+export interface CalibrationOptions {
+  /**
+   * Name of the baseline condition, e.g. `eyes-open`
+   */
+  label: string;
+  metrics: CalibrationMetric[];
+  durationMs: number;
+  /**
+   * Brackets the baseline with `<label>-start` and `<label>-end` markers.
+   * Defaults to false.
+   */
+  addMarkers?: boolean;
+}
+
+/**
+ * Mean and sample variance of a value, accumulated with Welford's algorithm
+ */
+export interface RunningStats {
+  count: number;
+  mean: number;
+  variance: number;
+}
+
+/**
+ * JSON serializable baseline. `powerByBand` holds the stats of every band for
+ * every channel, and `focus` and `calm` the stats of their probability.
+ */
+export interface Baseline {
+  version: number;
+  label: string;
+  startTime: number;
+  endTime: number;
+  powerByBand?: Record<BandName, RunningStats[]>;
+  focus?: RunningStats;
+  calm?: RunningStats;
+}
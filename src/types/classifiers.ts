@@ -0,0 +1,98 @@
+import { BandName, Epoch } from "./brainwaves";
+
+/**
+ * - `lda`: linear discriminant analysis of log band power
+ * - `logisticRegression`: multinomial logistic regression of log band power
+ * - `csp`: common spatial patterns of band-passed raw data followed by LDA,
+ *   for two labels only
+ */
+export type ClassifierType = "lda" | "logisticRegression" | "csp";
+
+export interface LabelledEpoch {
+  label: string;
+  epoch: Epoch;
+}
+
+export interface TrainClassifierOptions {
+  type: ClassifierType;
+  /**
+   * Bands used as features by `lda` and `logisticRegression`. Defaults to
+   * theta, alpha and beta.
+   */
+  bands?: BandName[];
+  /**
+   * Covariance shrinkage between 0 and 1 used by `lda` and `csp`. Defaults to
+   * 0.1.
+   */
+  shrinkage?: number;
+  /**
+   * Gradient descent iterations of `logisticRegression`. Defaults to 500.
+   */
+  iterations?: number;
+  /**
+   * Learning rate of `logisticRegression`. Defaults to 0.1.
+   */
+  learningRate?: number;
+  /**
+   * L2 regularization of `logisticRegression`. Defaults to 0.01.
+   */
+  l2?: number;
+  /**
+   * Band-pass in Hz applied before `csp`. Defaults to [8, 30].
+   */
+  filterBand?: [number, number];
+  /**
+   * Number of spatial filters kept from each end of the `csp` spectrum.
+   * Defaults to 2.
+   */
+  components?: number;
+}
+
+/**
+ * Linear scores per label, turned into probabilities with a softmax
+ */
+export interface LinearModel {
+  weights: number[][];
+  biases: number[];
+}
+
+interface BaseClassifierModel {
+  version: number;
+  labels: string[];
+  samplingRate: number;
+  channelNames?: string[];
+  /**
+   * Number of samples of the training epochs, used to window predictions
+   */
+  epochSize: number;
+}
+
+export interface BandPowerClassifierModel extends BaseClassifierModel {
+  type: "lda" | "logisticRegression";
+  bands: BandName[];
+  standardization: { mean: number[]; std: number[] };
+  linear: LinearModel;
+}
+
+export interface CSPClassifierModel extends BaseClassifierModel {
+  type: "csp";
+  filterBand: [number, number];
+  /**
+   * Spatial filters, one per row
+   */
+  filters: number[][];
+  linear: LinearModel;
+}
+
+/**
+ * JSON serializable classifier trained by `trainClassifier()`
+ */
+export type ClassifierModel = BandPowerClassifierModel | CSPClassifierModel;
+
+export interface LocalPredictionsOptions {
+  /**
+   * Samples between predictions. Defaults to a quarter of the model's
+   * `epochSize`.
+   */
+  hop?: number;
+}
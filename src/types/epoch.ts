@@ -1,5 +1,3 @@
-import { Marker } from "./marker";
-
 /**
  * @hidden
  */
@@ -8,6 +6,6 @@ export type Epoch = {
   info?: {
     channelNames?: string[];
     samplingRate?: number;
-    marker?: Marker[];
+    markers?: number[];
   };
 };
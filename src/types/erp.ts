@@ -0,0 +1,68 @@
+import { Observable } from "rxjs";
+
+/**
+ * Stimulus onset, e.g. a marker added via `addMarker`. Trials are averaged
+ * per label.
+ */
+export interface StimulusEvent {
+  label: string;
+  timestamp: number;
+}
+
+export interface ERPOptions {
+  /**
+   * Duration in ms before the stimulus included in every trial. Defaults to
+   * 200.
+   */
+  preStimulus?: number;
+  /**
+   * Duration in ms after the stimulus included in every trial. Defaults to
+   * 800.
+   */
+  postStimulus?: number;
+  /**
+   * Window in ms relative to the stimulus whose mean is subtracted from every
+   * channel. Defaults to `[-preStimulus, 0]`, `null` disables baseline
+   * correction.
+   */
+  baseline?: [number, number] | null;
+  /**
+   * Conditions to average, all stimulus labels are averaged when omitted
+   */
+  conditions?: string[];
+  /**
+   * Time in ms a stimulus may arrive after its samples. Defaults to 1000.
+   */
+  maxLatency?: number;
+}
+
+export interface ERPStreamOptions extends ERPOptions {
+  /**
+   * Stimulus events. Defaults to markers added via `addMarker`.
+   */
+  events$?: Observable<StimulusEvent>;
+}
+
+/**
+ * Running average of the trials of a condition
+ */
+export interface ERP {
+  condition: string;
+  trialCount: number;
+  /**
+   * Time in ms of every sample relative to the stimulus
+   */
+  times: number[];
+  /**
+   * Average amplitude by channel
+   */
+  data: number[][];
+  info: {
+    samplingRate: number;
+    channelNames?: string[];
+    /**
+     * Timestamp of the stimulus of the last trial
+     */
+    lastStimulusTime: number;
+  };
+}
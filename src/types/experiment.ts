@@ -7,3 +7,65 @@ export type Experiment = {
   totalTrials: number;
   userId: string;
 };
+
+export interface GuidedTrialOptions {
+  label: string;
+  /**
+   * Number of trials to record. Defaults to 1.
+   */
+  trials?: number;
+  /**
+   * Countdown in ms before every trial. Defaults to 3000.
+   */
+  countdown?: number;
+  /**
+   * Duration in ms of every trial. Defaults to 8000.
+   */
+  duration?: number;
+  /**
+   * Rest in ms after every trial. Defaults to 2000.
+   */
+  rest?: number;
+  /**
+   * Records the trials as baseline. Defaults to false.
+   */
+  baseline?: boolean;
+  /**
+   * Requests a fit with the last trial. Defaults to true.
+   */
+  fit?: boolean;
+}
+
+export type TrialPhase = "countdown" | "recording" | "rest" | "complete";
+
+export interface TrialProgress {
+  phase: TrialPhase;
+  label: string;
+  /**
+   * Trial number within the run, starting at 1
+   */
+  trial: number;
+  trials: number;
+  /**
+   * Time in ms left in the phase, updated every second
+   */
+  remaining: number;
+}
+
+export interface ExperimentProgress {
+  /**
+   * Latest state of the experiment as listed by `onUserExperiments()`
+   */
+  experiment: Experiment | null;
+  /**
+   * Trials recorded by this `KinesisExperiment` instance. Trials recorded
+   * elsewhere only count towards `experiment.totalTrials`, which is updated
+   * by the backend.
+   */
+  completedTrials: number;
+  /**
+   * Labels a fit was requested for by this instance. The device doesn't
+   * report when a fit completes, so this is not a fit status.
+   */
+  fitRequested: string[];
+}
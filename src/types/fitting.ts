@@ -0,0 +1,40 @@
+import { ChannelQuality } from "./signalQuality";
+
+/**
+ * - `waiting`: no signal quality received yet, or no channel has contact
+ * - `adjusting`: some channels are below the required status
+ * - `stable`: every channel reached the required status, not for long enough
+ * - `ready`: every channel kept the required status for `stableDuration`
+ */
+export type FittingState = "waiting" | "adjusting" | "stable" | "ready";
+
+export interface FittingOptions {
+  /**
+   * Status every channel needs to reach. Defaults to `good`.
+   */
+  requiredStatus?: "great" | "good";
+  /**
+   * Time in ms channels need to keep the required status. Defaults to 5000.
+   */
+  stableDuration?: number;
+  /**
+   * Confirms with haptics on P7 and P8 once ready. Defaults to true.
+   */
+  haptics?: boolean;
+}
+
+export interface ChannelFitting extends ChannelQuality {
+  isReady: boolean;
+  guidance: string;
+}
+
+export interface Fitting {
+  state: FittingState;
+  channels: { [channelName: string]: ChannelFitting };
+  readyChannels: number;
+  totalChannels: number;
+  /**
+   * Time in ms every channel has had the required status, 0 when they don't
+   */
+  stableFor: number;
+}
@@ -0,0 +1,64 @@
+import { Observable } from "rxjs";
+import { Epoch } from "./brainwaves";
+
+/**
+ * Raw epochs of a single device, timestamped with the device clock
+ */
+export interface AlignSource {
+  deviceId: string;
+  epochs: Observable<Epoch>;
+  /**
+   * Device clock offset in ms, so that `localTime = deviceTime + offset`.
+   * Read for every epoch, so a function picks up timesync updates.
+   */
+  timesyncOffset?: number | (() => number);
+  /**
+   * Defaults to `CH1`, `CH2`, ...
+   */
+  channelNames?: string[];
+}
+
+export interface AlignOptions {
+  /**
+   * Samples per emitted frame. Defaults to 16.
+   */
+  frameSize?: number;
+  /**
+   * Sampling rate of the common timeline. Defaults to the sampling rate of
+   * the first epoch received.
+   */
+  samplingRate?: number;
+  /**
+   * Max time in ms to wait for a stalled device before emitting frames
+   * without it. Missing samples are filled with `NaN`. Defaults to 1000.
+   */
+  maxLatency?: number;
+}
+
+/**
+ * Epoch with the channels of every device on a common local timeline
+ */
+export interface AlignedEpoch {
+  data: number[][];
+  info: {
+    samplingRate: number;
+    /**
+     * Local time of the first sample
+     */
+    startTime: number;
+    /**
+     * Prefixed with the device id, e.g. `deviceId:CP3`
+     */
+    channelNames: string[];
+    /**
+     * Difference in ms between each device's closest sample and the first
+     * sample of the frame, before interpolation. A growing value means the
+     * device clocks are drifting apart.
+     */
+    drift: { [deviceId: string]: number };
+    /**
+     * Timesync offsets used for the frame
+     */
+    offsets: { [deviceId: string]: number };
+  };
+}
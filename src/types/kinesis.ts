@@ -1,6 +1,6 @@
-export interface Kinesis {
+export interface Kinesis<Label extends string = string> {
   metric: "kinesis";
-  label: string;
+  label: Label;
   probability: number;
   timestamp: number;
 }
@@ -0,0 +1,57 @@
+export type LSLChannelFormat = "float32" | "double64" | "string";
+
+export interface LSLChannel {
+  label: string;
+  unit?: string;
+  type?: string;
+}
+
+/**
+ * Stream metadata, serialized as the XML stream info used by LSL resolvers
+ * and stored by LabRecorder in the XDF stream header.
+ */
+export interface LSLStreamInfo {
+  name: string;
+  type: string;
+  channelCount: number;
+  /**
+   * Nominal sampling rate in Hz. 0 means irregular, e.g. markers.
+   */
+  nominalSrate: number;
+  channelFormat: LSLChannelFormat;
+  sourceId: string;
+  channels?: LSLChannel[];
+  manufacturer?: string;
+}
+
+export interface LSLOutletOptions {
+  /**
+   * Port for the TCP data server and UDP time service. Defaults to a random
+   * free port.
+   */
+  port?: number;
+  host?: string;
+  /**
+   * Answer resolver queries on the LSL multicast port so tools like
+   * LabRecorder can find the stream. Defaults to true.
+   */
+  discovery?: boolean;
+  sessionId?: string;
+}
+
+export type LSLStreamName = "raw" | "accelerometer" | "markers";
+
+export interface LSLOptions extends LSLOutletOptions {
+  /**
+   * Streams to publish. Defaults to all of them.
+   */
+  streams?: LSLStreamName[];
+}
+
+export interface LSLSample {
+  /**
+   * LSL local clock time in seconds
+   */
+  timestamp: number;
+  data: (number | string)[];
+}
@@ -1,7 +1,37 @@
-/**
- * @hidden
- */
+export interface MarkerOptions {
+  label: string;
+  /**
+   * Numeric payload, e.g. a stimulus intensity or response time
+   */
+  value?: number;
+  /**
+   * Duration in ms of the marked event, e.g. how long a stimulus is shown
+   */
+  durationMs?: number;
+  /**
+   * JSON serializable data stored with the marker
+   */
+  metadata?: { [key: string]: any };
+  /**
+   * Defaults to the time `addMarker` is called, corrected by timesync when
+   * `options.timesync` is enabled
+   */
+  timestamp?: number;
+}
+
 export type Marker = {
   label: string;
   timestamp: number;
+  value?: number;
+  durationMs?: number;
+  metadata?: { [key: string]: any };
+};
+
+/**
+ * Marker the device responded to, when `options.acknowledgeMarkers` is
+ * enabled. `acknowledgedAt` is the device's timestamp of the response, or the
+ * time the response was received when the device doesn't report one.
+ */
+export type AcknowledgedMarker = Marker & {
+  acknowledgedAt: number;
 };
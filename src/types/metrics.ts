@@ -1,4 +1,14 @@
+import { metrics } from "@neurosity/ipk";
+
 import { PendingSubscription, Subscription } from "./subscriptions";
+import { Kinesis } from "./kinesis";
+import { Prediction } from "./predictions";
+import { SignalQuality } from "./signalQuality";
+import { Accelerometer } from "./accelerometer";
+import { DeviceStatus } from "./status";
+import { Epoch, PowerByBand, PSD } from "./brainwaves";
+import { Focus } from "./focus";
+import { Calm } from "./calm";
 
 /**
  * @hidden
@@ -25,3 +35,60 @@ export interface Metrics {
     listener: SubscriptionListener
   ): void;
 }
+
+/**
+ * Metric names, derived from the metrics defined in `@neurosity/ipk`
+ */
+export type MetricName = keyof typeof metrics;
+
+/**
+ * Valid labels of a given metric, e.g. `MetricLabel<"kinesis">` is
+ * `"leftArm" | "rightArm" | ...`
+ */
+export type MetricLabel<M extends MetricName> = Extract<
+  keyof typeof metrics[M],
+  string
+>;
+
+/**
+ * Metrics emitted as a single object containing every label
+ */
+export type AtomicMetricName = "signalQuality" | "accelerometer" | "status";
+
+type BrainwavesPayloads = {
+  raw: Epoch;
+  rawUnfiltered: Epoch;
+  psd: PSD;
+  powerByBand: PowerByBand;
+};
+
+type AwarenessPayloads = {
+  focus: Focus;
+  calm: Calm;
+};
+
+/**
+ * Payload emitted by `neurosity.metric(metric, label)`
+ */
+export type MetricPayload<
+  M extends MetricName,
+  L extends MetricLabel<M> = MetricLabel<M>
+> = M extends "kinesis"
+  ? Kinesis<L>
+  : M extends "predictions"
+  ? Prediction<L>
+  : M extends "signalQuality"
+  ? SignalQuality
+  : M extends "accelerometer"
+  ? Accelerometer
+  : M extends "status"
+  ? DeviceStatus
+  : M extends "brainwaves"
+  ? L extends keyof BrainwavesPayloads
+    ? BrainwavesPayloads[L]
+    : unknown
+  : M extends "awareness"
+  ? L extends keyof AwarenessPayloads
+    ? AwarenessPayloads[L]
+    : { metric: "awareness"; label: L; probability: number; timestamp: number }
+  : unknown;
@@ -0,0 +1,104 @@
+import { Observable } from "rxjs";
+
+import { BandName } from "./brainwaves";
+
+/**
+ * Value fed to a neurofeedback session. Plain numbers are timestamped when
+ * received.
+ */
+export type NeurofeedbackInput =
+  | number
+  | { value: number; timestamp?: number }
+  | { probability: number; timestamp?: number };
+
+/**
+ * - `fixed`: rewards values past `value`
+ * - `adaptivePercentile`: the threshold is the given percentile of the values
+ *   within the last `window` ms, so the difficulty follows the user
+ * - `baseline`: the first `duration` ms are recorded as a baseline without
+ *   rewards, and the threshold is the baseline mean plus `offset` standard
+ *   deviations
+ */
+export type ThresholdStrategy =
+  | { type: "fixed"; value: number }
+  | { type: "adaptivePercentile"; percentile: number; window?: number }
+  | { type: "baseline"; duration: number; offset?: number };
+
+export interface RewardEvent {
+  timestamp: number;
+  value: number;
+  threshold: number;
+}
+
+export interface NeurofeedbackStats {
+  startTime: number;
+  /**
+   * Duration in ms since the first value
+   */
+  elapsed: number;
+  samples: number;
+  rewards: number;
+  /**
+   * Time in ms spent past the threshold
+   */
+  timeInTarget: number;
+  /**
+   * Percentage, from 0 to 100, of the time with a threshold spent past it
+   */
+  percentInTarget: number;
+  mean: number;
+  min: number;
+  max: number;
+}
+
+export interface NeurofeedbackUpdate {
+  timestamp: number;
+  value: number;
+  /**
+   * `null` while recording a baseline or gathering values for a percentile
+   */
+  threshold: number | null;
+  inTarget: boolean;
+  reward: RewardEvent | null;
+  stats: NeurofeedbackStats;
+}
+
+export interface NeurofeedbackOptions {
+  threshold: ThresholdStrategy;
+  /**
+   * Whether values above or below the threshold are rewarded. Defaults to
+   * `above`.
+   */
+  direction?: "above" | "below";
+  /**
+   * Minimum time in ms between rewards. Defaults to 1000.
+   */
+  rewardInterval?: number;
+  /**
+   * Called for every reward
+   */
+  onReward?: (reward: RewardEvent) => void;
+  /**
+   * Session duration in ms, the session runs until unsubscribed when omitted
+   */
+  duration?: number;
+}
+
+/**
+ * Metric trained by `neurosity.neurofeedback()`. A band ratio divides the
+ * power of two bands averaged across channels, e.g. `["theta", "beta"]`.
+ */
+export type NeurofeedbackTarget =
+  | "focus"
+  | "calm"
+  | { bandRatio: [BandName, BandName] }
+  | Observable<NeurofeedbackInput>;
+
+export interface NeurosityNeurofeedbackOptions extends NeurofeedbackOptions {
+  target: NeurofeedbackTarget;
+  /**
+   * Haptic effect played on P7 and P8 for every reward, see
+   * `getHapticEffects()`
+   */
+  hapticReward?: string;
+}
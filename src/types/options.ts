@@ -2,6 +2,9 @@ import { Skill } from "./skill";
 import { SubscriptionManager } from "../subscriptions/SubscriptionManager";
 import { BluetoothTransport } from "../api/bluetooth/BluetoothClient";
 import { STREAMING_MODE } from "./streaming";
+import { CreateDeviceStore } from "../api/firebase/deviceStore";
+import { CreateUserStore } from "../api/firebase/userStore";
+import { CodecRegistry } from "../api/bluetooth/codecs";
 
 export interface SDKOptions {
   deviceId?: string;
@@ -9,6 +12,23 @@ export interface SDKOptions {
   timesync?: boolean;
   bluetoothTransport?: BluetoothTransport;
   streamingMode?: STREAMING_MODE;
+  /**
+   * Decoders for Bluetooth characteristics, see `createCodecRegistry`
+   */
+  bluetoothCodecs?: CodecRegistry;
+  /**
+   * Time in ms markers are collected before being sent to the device, one
+   * action per marker and in order. Defaults to 0, which collects markers
+   * added synchronously.
+   */
+  markerBatchInterval?: number;
+  /**
+   * Requires the device to respond to marker actions, and emits markers via
+   * `neurosity.markers()` once it does. Only enable it with firmware that
+   * responds to markers, otherwise `addMarker` rejects after a timeout.
+   * Defaults to false, which sends markers without waiting for the device.
+   */
+  acknowledgeMarkers?: boolean;
   /**
    * @hidden
    */
@@ -43,6 +63,14 @@ export interface SDKOptions {
    * @hidden
    */
   skill?: Skill;
+  /**
+   * @hidden
+   */
+  createDeviceStore?: CreateDeviceStore;
+  /**
+   * @hidden
+   */
+  createUserStore?: CreateUserStore;
 }
 
 /**
@@ -50,4 +78,5 @@ export interface SDKOptions {
  */
 export interface SDKDependencies {
   subscriptionManager: SubscriptionManager;
+  createDeviceStore?: CreateDeviceStore;
 }
@@ -0,0 +1,6 @@
+export interface Prediction<Label extends string = string> {
+  metric: "predictions";
+  label: Label;
+  probability: number;
+  timestamp: number;
+}
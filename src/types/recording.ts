@@ -0,0 +1,79 @@
+import { BrainwavesLabel } from "./brainwaves";
+import { DeviceInfo } from "./deviceInfo";
+
+/**
+ * Streams that can be captured by `neurosity.record()`. Brainwaves are
+ * recorded per label, e.g. `brainwaves/raw` or `brainwaves/powerByBand`.
+ */
+export type RecordingMetric =
+  | `brainwaves/${BrainwavesLabel}`
+  | "signalQuality"
+  | "accelerometer"
+  | "focus"
+  | "calm"
+  | "status";
+
+/**
+ * Destination of a recording, e.g. a Node `fs.WriteStream`. Receives the
+ * session as newline delimited JSON while recording.
+ */
+export interface SessionWriter {
+  write: (chunk: string) => unknown;
+  /**
+   * Called once the recording ends. Must call `callback` once everything
+   * written is flushed, or with an error, like `fs.WriteStream.end` does.
+   */
+  end?: (callback: (error?: Error | null) => void) => unknown;
+}
+
+export interface RecordOptions {
+  metrics: RecordingMetric[];
+  /**
+   * Duration in ms of the recording, must be greater than 0
+   */
+  durationMs: number;
+  writer: SessionWriter;
+}
+
+export interface RecordedEvent {
+  metric: RecordingMetric | "markers";
+  timestamp: number;
+  data: any;
+}
+
+/**
+ * Recording parsed from a session file by `parseSession()`. Events from all
+ * metrics, including markers, are stored in a single timeline ordered by
+ * timestamp.
+ */
+export interface Session {
+  version: number;
+  deviceInfo: DeviceInfo | null;
+  startTime: number;
+  endTime: number;
+  metrics: RecordingMetric[];
+  events: RecordedEvent[];
+}
+
+/**
+ * First line of a session file
+ */
+export type SessionHeader = Omit<Session, "endTime" | "events">;
+
+/**
+ * Resolved by `neurosity.record()` once the session file is complete
+ */
+export interface RecordingSummary {
+  startTime: number;
+  endTime: number;
+  metrics: RecordingMetric[];
+  eventCount: number;
+}
+
+export interface ReplayOptions {
+  /**
+   * Playback rate relative to the recording. `Infinity` emits every event
+   * synchronously. Defaults to 1.
+   */
+  speed?: number;
+}
@@ -1,5 +1,3 @@
-import { Marker } from "./marker";
-
 /**
  * @hidden
  */
@@ -7,7 +5,10 @@ export type Sample = {
   data: number[];
   timestamp: number;
   count?: number;
-  marker?: Marker;
+  /**
+   * Marker value written by the device firmware, 0 when there is none
+   */
+  marker?: number;
   info?: any;
 };
 
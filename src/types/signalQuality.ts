@@ -1,4 +1,4 @@
-type ChannelQuality = {
+export type ChannelQuality = {
   standardDeviation: number;
   status: "great" | "good" | "bad" | "noContact";
 };
@@ -11,3 +11,32 @@ type ChannelQuality = {
 export interface SignalQuality {
   [channelName: string]: ChannelQuality;
 }
+
+/**
+ * Thresholds used to estimate signal quality from raw data, in microvolts
+ */
+export interface SignalQualityThresholds {
+  /**
+   * Highest standard deviation of a `great` channel. Defaults to 10.
+   */
+  great?: number;
+  /**
+   * Highest standard deviation of a `good` channel. Defaults to 20.
+   */
+  good?: number;
+  /**
+   * Highest RMS amplitude at the line frequency before a channel is `bad`.
+   * Defaults to 50.
+   */
+  lineNoise?: number;
+  /**
+   * Channels with a lower standard deviation are flat, and reported as
+   * `noContact`. Defaults to 0.5.
+   */
+  flat?: number;
+  /**
+   * Channels with a higher standard deviation are saturated, and reported as
+   * `noContact`. Defaults to 1000.
+   */
+  saturated?: number;
+}
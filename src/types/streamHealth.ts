@@ -0,0 +1,48 @@
+/**
+ * Discontinuity between two consecutive raw epochs. A `gap` means samples
+ * were dropped, a `duplicate` means samples were received more than once.
+ */
+export interface StreamGap {
+  type: "gap" | "duplicate";
+  /**
+   * Time of the first missing or duplicated sample
+   */
+  startTime: number;
+  samples: number;
+  /**
+   * Duration in ms
+   */
+  duration: number;
+}
+
+export interface StreamHealth {
+  samplingRate: number;
+  /**
+   * Samples received within the window
+   */
+  receivedSamples: number;
+  missingSamples: number;
+  duplicateSamples: number;
+  /**
+   * Ratio of missing samples to expected samples within the window
+   */
+  lossRate: number;
+  /**
+   * Standard deviation in ms of the epoch start times relative to the
+   * expected times, excluding whole missing or duplicated samples
+   */
+  jitter: number;
+  /**
+   * Gaps and duplicates within the window
+   */
+  gaps: StreamGap[];
+  /**
+   * Start time of the last epoch
+   */
+  timestamp: number;
+}
+
+/**
+ * `nan` corrupts the state of stateful filters, only use it after filtering
+ */
+export type GapFillMethod = "nan" | "interpolate";
@@ -0,0 +1,102 @@
+/**
+ * Inter-stimulus interval in ms. A range is jittered uniformly between `min`
+ * and `max`.
+ */
+export type ISI = number | { min: number; max: number };
+
+export interface TrialDefinition {
+  /**
+   * Added as marker label at stimulus onset
+   */
+  condition: string;
+  /**
+   * Passed to trial events for the UI to render
+   */
+  stimulus?: any;
+  /**
+   * Duration in ms the stimulus is presented. Defaults to 0.
+   */
+  duration?: number;
+}
+
+export interface BlockDefinition {
+  name: string;
+  trials: TrialDefinition[];
+  /**
+   * Defaults to 1
+   */
+  repetitions?: number;
+  /**
+   * Shuffles the trials of every repetition. Defaults to false.
+   */
+  randomize?: boolean;
+}
+
+export interface Protocol {
+  blocks: BlockDefinition[];
+  /**
+   * Time between the end of a stimulus and the onset of the next one
+   */
+  isi: ISI;
+  /**
+   * Seed for randomization and jitter, so a protocol runs in the same order
+   * every time. Defaults to a random seed.
+   */
+  seed?: number;
+  /**
+   * Shuffles the order of blocks. Defaults to false.
+   */
+  randomizeBlocks?: boolean;
+  /**
+   * Delay in ms before the first trial. Defaults to 1000.
+   */
+  leadIn?: number;
+  /**
+   * Rest in ms between blocks. Defaults to 0.
+   */
+  restBetweenBlocks?: number;
+  /**
+   * Add a marker at every stimulus onset. Defaults to true.
+   */
+  addMarkers?: boolean;
+}
+
+/**
+ * Trial with its onset in ms relative to the start of the protocol
+ */
+export interface ScheduledTrial extends TrialDefinition {
+  block: string;
+  blockIndex: number;
+  trialIndex: number;
+  offset: number;
+}
+
+export interface SchedulingLatency {
+  count: number;
+  mean: number;
+  max: number;
+  standardDeviation: number;
+}
+
+export type TrialEvent =
+  | {
+      type: "trial";
+      trial: ScheduledTrial;
+      /**
+       * Timesync corrected time the onset was scheduled for
+       */
+      requestedOnset: number;
+      /**
+       * Timesync corrected time the onset was dispatched
+       */
+      onset: number;
+      /**
+       * Difference in ms between `onset` and `requestedOnset`
+       */
+      latency: number;
+    }
+  | {
+      type: "complete";
+      seed: number;
+      latency: SchedulingLatency;
+    };
@@ -0,0 +1,105 @@
+import { Accelerometer } from "../../types/accelerometer";
+import { periodogram } from "./fft";
+
+/**
+ * @hidden
+ */
+export const DEFAULT_ARTIFACT_THRESHOLDS = {
+  blink: 100,
+  jawClench: 15,
+  motion: 0.1,
+  electrodePop: 150
+};
+
+// Muscle activity from jaw clenches dominates above this frequency
+const MUSCLE_LOW_CUTOFF = 30;
+// Blinks last 100-400ms, so a 50ms moving average keeps them intact
+const BLINK_SMOOTHING_SECONDS = 0.05;
+
+/**
+ * @hidden
+ * Fp, AF and F channels, e.g. Fp1, AF7, F5 or Fz
+ */
+export const isFrontalChannel = (channelName: string): boolean =>
+  /^(fp|af|f)[0-9z]/i.test(channelName ?? "");
+
+const movingAverage = (signal: number[], size: number): number[] => {
+  let sum = 0;
+  return signal.map((value, index) => {
+    sum += value - (index >= size ? signal[index - size] : 0);
+    return sum / Math.min(index + 1, size);
+  });
+};
+
+const peakToPeak = (signal: number[]): number =>
+  signal.length ? Math.max(...signal) - Math.min(...signal) : 0;
+
+/**
+ * @hidden
+ * Large, slow deflections on frontal channels
+ */
+export function detectBlinks(
+  data: number[][],
+  channelNames: string[],
+  samplingRate: number,
+  threshold: number
+): boolean[] {
+  const size = Math.max(1, Math.round(BLINK_SMOOTHING_SECONDS * samplingRate));
+
+  return data.map(
+    (channel, channelIndex) =>
+      isFrontalChannel(channelNames?.[channelIndex]) &&
+      peakToPeak(movingAverage(channel, size)) > threshold
+  );
+}
+
+/**
+ * @hidden
+ * Broadband high frequency power, measured as the RMS amplitude above 30Hz
+ */
+export function detectMuscle(
+  data: number[][],
+  samplingRate: number,
+  threshold: number
+): boolean[] {
+  return data.map((channel) => {
+    const { psd, freqs } = periodogram(channel, samplingRate);
+    const resolution = freqs[1] - freqs[0] || 0;
+    const power = psd.reduce(
+      (sum, value, index) =>
+        freqs[index] >= MUSCLE_LOW_CUTOFF ? sum + value * resolution : sum,
+      0
+    );
+    return Math.sqrt(power) > threshold;
+  });
+}
+
+/**
+ * @hidden
+ * Steps between consecutive samples, usually caused by an electrode losing
+ * contact with the skin
+ */
+export function detectElectrodePops(
+  data: number[][],
+  threshold: number
+): boolean[] {
+  return data.map((channel) =>
+    channel.some(
+      (value, index) =>
+        index > 0 && Math.abs(value - channel[index - 1]) > threshold
+    )
+  );
+}
+
+/**
+ * @hidden
+ * Acceleration magnitude away from gravity
+ */
+export function detectMotion(
+  accelerometer: Accelerometer[],
+  threshold: number
+): boolean {
+  return accelerometer.some(
+    ({ x, y, z }) => Math.abs(Math.sqrt(x * x + y * y + z * z) - 1) > threshold
+  );
+}
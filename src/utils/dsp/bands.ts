@@ -0,0 +1,33 @@
+import { BandName } from "../../types/brainwaves";
+
+/**
+ * @hidden
+ * Frequency ranges in Hz, matching the ones used for `powerByBand`
+ */
+export const FREQUENCY_BANDS: { [band in BandName]: [number, number] } = {
+  delta: [1, 4],
+  theta: [4, 7.5],
+  alpha: [7.5, 12.5],
+  beta: [12.5, 30],
+  gamma: [30, 100]
+};
+
+/**
+ * @hidden
+ * Average power of the bins within [low, high) for every channel
+ */
+export function averageBandPower(
+  psd: number[][],
+  freqs: number[],
+  [low, high]: [number, number]
+): number[] {
+  const indexes = freqs
+    .map((freq, index) => (freq >= low && freq < high ? index : -1))
+    .filter((index) => index >= 0);
+
+  return psd.map((channel) =>
+    indexes.length
+      ? indexes.reduce((sum, index) => sum + channel[index], 0) / indexes.length
+      : 0
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ * @hidden
+ */
+export const nextPowerOfTwo = (value: number): number =>
+  Math.pow(2, Math.ceil(Math.log2(Math.max(1, value))));
+
+/**
+ * @hidden
+ * In-place iterative radix-2 Cooley-Tukey FFT. Both arrays must have the
+ * same power of two length.
+ */
+export function fft(real: Float64Array, imag: Float64Array): void {
+  const size = real.length;
+
+  if (size & (size - 1)) {
+    throw new Error(`FFT size must be a power of two, received ${size}`);
+  }
+
+  // bit reversal permutation
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length;
+    const wReal = Math.cos(angle);
+    const wImag = Math.sin(angle);
+
+    for (let start = 0; start < size; start += length) {
+      let currentReal = 1;
+      let currentImag = 0;
+
+      for (let k = 0; k < length / 2; k++) {
+        const even = start + k;
+        const odd = even + length / 2;
+        const oddReal = real[odd] * currentReal - imag[odd] * currentImag;
+        const oddImag = real[odd] * currentImag + imag[odd] * currentReal;
+
+        real[odd] = real[even] - oddReal;
+        imag[odd] = imag[even] - oddImag;
+        real[even] += oddReal;
+        imag[even] += oddImag;
+
+        const nextReal = currentReal * wReal - currentImag * wImag;
+        currentImag = currentReal * wImag + currentImag * wReal;
+        currentReal = nextReal;
+      }
+    }
+  }
+}
+
+/**
+ * @hidden
+ */
+export function hannWindow(size: number): Float64Array {
+  const window = new Float64Array(size);
+  for (let n = 0; n < size; n++) {
+    window[n] =
+      size > 1 ? 0.5 - 0.5 * Math.cos((2 * Math.PI * n) / (size - 1)) : 1;
+  }
+  return window;
+}
+
+/**
+ * @hidden
+ * One-sided power spectral density (periodogram) in units²/Hz of a single
+ * channel. The signal is Hann windowed and zero padded to `fftSize`. The FFT
+ * size is rounded up to the next power of two and never shorter than the
+ * signal, so the whole signal is always used.
+ */
+export function periodogram(
+  signal: number[],
+  samplingRate: number,
+  minFftSize?: number
+): { psd: number[]; freqs: number[] } {
+  const fftSize = nextPowerOfTwo(Math.max(signal.length, minFftSize ?? 0));
+  const window = hannWindow(signal.length);
+  const real = new Float64Array(fftSize);
+  const imag = new Float64Array(fftSize);
+  let windowPower = 0;
+
+  signal.forEach((value, n) => {
+    real[n] = value * window[n];
+    windowPower += window[n] * window[n];
+  });
+
+  fft(real, imag);
+
+  const bins = fftSize / 2 + 1;
+  const psd = new Array(bins);
+  const freqs = new Array(bins);
+  const scale = 1 / (samplingRate * windowPower);
+
+  for (let k = 0; k < bins; k++) {
+    const power = (real[k] * real[k] + imag[k] * imag[k]) * scale;
+    // Double every bin except DC and Nyquist to account for negative frequencies
+    psd[k] = k === 0 || k === fftSize / 2 ? power : 2 * power;
+    freqs[k] = (k * samplingRate) / fftSize;
+  }
+
+  return { psd, freqs };
+}
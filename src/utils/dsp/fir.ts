@@ -0,0 +1,66 @@
+/**
+ * @hidden
+ * Windowed-sinc (Hamming) band-pass FIR coefficients. `order` is rounded up to
+ * an even number so the filter has a whole sample delay of `order / 2`.
+ */
+export function firBandpass(
+  lowCutoff: number,
+  highCutoff: number,
+  samplingRate: number,
+  order = 64
+): number[] {
+  const taps = order + (order % 2) + 1;
+  const middle = (taps - 1) / 2;
+  const low = lowCutoff / samplingRate;
+  const high = highCutoff / samplingRate;
+
+  const sinc = (cutoff: number, n: number) =>
+    n === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * n) / (Math.PI * n);
+
+  const coefficients = Array.from({ length: taps }, (_, index) => {
+    const n = index - middle;
+    const window = 0.54 - 0.46 * Math.cos((2 * Math.PI * index) / (taps - 1));
+    return (sinc(high, n) - sinc(low, n)) * window;
+  });
+
+  // Normalize to unity gain at the center of the pass band
+  const center = (2 * Math.PI * (low + high)) / 2;
+  const gain = Math.abs(
+    coefficients.reduce(
+      (sum, coefficient, index) =>
+        sum + coefficient * Math.cos(center * (index - middle)),
+      0
+    )
+  );
+
+  return coefficients.map((coefficient) => coefficient / (gain || 1));
+}
+
+/**
+ * @hidden
+ * Stateful FIR filter that keeps the last samples of the previous call
+ */
+export class FIRFilter {
+  private history: number[];
+
+  constructor(private coefficients: number[]) {
+    this.history = new Array(coefficients.length - 1).fill(0);
+  }
+
+  public process(signal: number[]): number[] {
+    const input = this.history.concat(signal);
+    const taps = this.coefficients.length;
+
+    const output = signal.map((_, index) => {
+      let sum = 0;
+      for (let k = 0; k < taps; k++) {
+        sum += this.coefficients[k] * input[index + taps - 1 - k];
+      }
+      return sum;
+    });
+
+    this.history = input.slice(input.length - (taps - 1));
+
+    return output;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * @hidden
+ * Normalized biquad coefficients, a0 = 1
+ */
+export type BiquadCoefficients = {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+};
+
+/**
+ * @hidden
+ */
+export type BiquadType = "lowpass" | "highpass" | "bandpass" | "notch";
+
+/**
+ * @hidden
+ * Biquad design from the RBJ Audio EQ Cookbook
+ */
+export function biquad(
+  type: BiquadType,
+  frequency: number,
+  samplingRate: number,
+  q: number = Math.SQRT1_2
+): BiquadCoefficients {
+  const w0 = (2 * Math.PI * frequency) / samplingRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  const a0 = 1 + alpha;
+
+  const numerators = {
+    lowpass: [(1 - cos) / 2, 1 - cos, (1 - cos) / 2],
+    highpass: [(1 + cos) / 2, -(1 + cos), (1 + cos) / 2],
+    bandpass: [alpha, 0, -alpha],
+    notch: [1, -2 * cos, 1]
+  };
+
+  const [b0, b1, b2] = numerators[type];
+
+  return {
+    b0: b0 / a0,
+    b1: b1 / a0,
+    b2: b2 / a0,
+    a1: (-2 * cos) / a0,
+    a2: (1 - alpha) / a0
+  };
+}
+
+/**
+ * @hidden
+ * Q factors of the second order sections of an even order Butterworth filter
+ */
+export function butterworthQs(order: number): number[] {
+  const sections = Math.max(1, Math.round(order / 2));
+  return Array.from(
+    { length: sections },
+    (_, k) => 1 / (2 * Math.cos(((2 * k + 1) * Math.PI) / (4 * sections)))
+  );
+}
+
+/**
+ * @hidden
+ * Butterworth band-pass as a cascade of high-pass and low-pass sections
+ */
+export function butterworthBandpass(
+  lowCutoff: number,
+  highCutoff: number,
+  samplingRate: number,
+  order = 4
+): BiquadCoefficients[] {
+  const qs = butterworthQs(order);
+  return [
+    ...qs.map((q) => biquad("highpass", lowCutoff, samplingRate, q)),
+    ...qs.map((q) => biquad("lowpass", highCutoff, samplingRate, q))
+  ];
+}
+
+/**
+ * @hidden
+ * Stateful cascade of biquads (transposed direct form II). State is kept
+ * between calls so consecutive epochs are filtered as a continuous signal.
+ */
+export class IIRFilter {
+  private state: Float64Array[];
+
+  constructor(private sections: BiquadCoefficients[]) {
+    this.state = sections.map(() => new Float64Array(2));
+  }
+
+  public process(signal: number[]): number[] {
+    return signal.map((value) =>
+      this.sections.reduce((input, section, index) => {
+        const state = this.state[index];
+        const output = section.b0 * input + state[0];
+        state[0] = section.b1 * input - section.a1 * output + state[1];
+        state[1] = section.b2 * input - section.a2 * output;
+        return output;
+      }, value)
+    );
+  }
+}
@@ -0,0 +1,5 @@
+export * from "./fft";
+export * from "./iir";
+export * from "./fir";
+export * from "./bands";
+export * from "./artifacts";
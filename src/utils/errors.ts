@@ -21,3 +21,9 @@ export const locationNotFound = (location: string, modelVersion: string) => {
 export const exceededMaxItems = (maxItems: number) => {
   return new Error(`${prefix}Maximum items in array is ${maxItems}`);
 };
+
+export const metricNotRecorded = (metric: string) => {
+  return new Error(
+    `${prefix}${metric} was not recorded in this session. Add it to the metrics passed to "neurosity.record()"`
+  );
+};
@@ -0,0 +1,142 @@
+import { Action } from "../types/actions";
+import { Marker, MarkerOptions } from "../types/marker";
+import { AcknowledgedMarker } from "../types/marker";
+import * as errors from "./errors";
+
+/**
+ * Maximum number of markers collected before they are sent
+ */
+const MAX_BATCH_SIZE = 50;
+
+/**
+ * Time in ms to wait for the device to respond when markers are acknowledged
+ */
+export const MARKER_RESPONSE_TIMEOUT = 4000;
+
+type MarkerBatcherOptions = {
+  dispatch: (marker: Marker) => Promise<any>;
+  /**
+   * Time in ms markers are collected before being sent
+   */
+  interval: number;
+};
+
+type QueuedMarker = {
+  marker: Marker;
+  resolve: (response: any) => void;
+  reject: (error: Error) => void;
+};
+
+/**
+ * @hidden
+ */
+export function toMarker(
+  labelOrOptions: string | MarkerOptions,
+  timestamp: number
+): Marker {
+  const options =
+    typeof labelOrOptions === "string"
+      ? { label: labelOrOptions }
+      : labelOrOptions;
+
+  if (!options?.label) {
+    throw new Error(`${errors.prefix}A label is required for addMarker`);
+  }
+
+  const { label, value, durationMs, metadata } = options;
+
+  return {
+    label,
+    timestamp: options.timestamp ?? timestamp,
+    ...(value !== undefined ? { value } : {}),
+    ...(durationMs !== undefined ? { durationMs } : {}),
+    ...(metadata !== undefined ? { metadata } : {})
+  };
+}
+
+/**
+ * @hidden
+ * The device expects one marker per action, sent as the message under the
+ * `marker/add` scope. Markers are fire-and-forget unless a response is
+ * required.
+ */
+export function createMarkerAction(
+  marker: Marker,
+  responseRequired = false
+): Action {
+  return {
+    command: "marker",
+    action: "add",
+    message: marker,
+    ...(responseRequired
+      ? { responseRequired, responseTimeout: MARKER_RESPONSE_TIMEOUT }
+      : {})
+  };
+}
+
+/**
+ * @hidden
+ * Builds the acknowledged marker from the device response. `acknowledgedAt`
+ * is the device's timestamp of the response when it reports one, otherwise
+ * the time the response was received.
+ */
+export function toAcknowledgedMarker(
+  marker: Marker,
+  response: any,
+  receivedAt: number
+): AcknowledgedMarker {
+  if (!response || response.error) {
+    throw new Error(
+      `${errors.prefix}The device did not acknowledge marker ${marker.label}${
+        response?.error ? `: ${response.error}` : ""
+      }`
+    );
+  }
+
+  return {
+    ...marker,
+    acknowledgedAt:
+      typeof response.timestamp === "number" ? response.timestamp : receivedAt
+  };
+}
+
+/**
+ * @hidden
+ * Collects markers added within `interval` and sends them one action at a
+ * time, in the order they were added, so high-rate markers don't flood the
+ * device with concurrent actions. Markers keep the timestamp of when they
+ * were added. Every marker resolves with the response to its own action.
+ */
+export function createMarkerBatcher({
+  dispatch,
+  interval
+}: MarkerBatcherOptions) {
+  let queue: QueuedMarker[] = [];
+  let flushTimeout: ReturnType<typeof setTimeout> = null;
+  let sending: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    clearTimeout(flushTimeout);
+    flushTimeout = null;
+
+    const batch = queue;
+    queue = [];
+
+    sending = batch.reduce(
+      (previous, { marker, resolve, reject }) =>
+        previous.then(() => dispatch(marker).then(resolve, reject)),
+      sending
+    );
+  };
+
+  return (marker: Marker): Promise<any> =>
+    new Promise((resolve, reject) => {
+      queue.push({ marker, resolve, reject });
+
+      if (queue.length >= MAX_BATCH_SIZE) {
+        flush();
+      } else if (!flushTimeout) {
+        flushTimeout = setTimeout(flush, interval);
+      }
+    });
+}
@@ -9,10 +9,10 @@ import { DeviceInfo } from "../types/deviceInfo";
 /**
  * @internal
  */
-export function getCloudMetric(
+export function getCloudMetric<T = any>(
   dependencies,
   subscription: PendingSubscription
-): Observable<any> {
+): Observable<T> {
   const { options, cloudClient, onDeviceChange, status } = dependencies;
 
   const { metric, labels, atomic } = subscription;
@@ -22,7 +22,7 @@ export function getCloudMetric(
     return throwError(() => metricError);
   }
 
-  const metric$ = new Observable((observer) => {
+  const metric$ = new Observable<T>((observer) => {
     const subscriptions: Subscription[] = atomic
       ? [
           cloudClient.metrics.subscribe({
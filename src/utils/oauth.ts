@@ -26,6 +26,7 @@ const scopeRequiredByFunctionName = {
   kinesis: "read:kinesis",
   predictions: "read:kinesis",
   signalQuality: "read:signal-quality",
+  streamHealth: "read:brainwaves",
   // end of metrics
   // device info
   getInfo: "read:devices-info",
@@ -1,7 +1,23 @@
-import { pipe } from "rxjs";
-import { bufferCount, scan, filter, map } from "rxjs/operators";
+import { pipe, defer, Observable } from "rxjs";
+import { bufferCount, scan, filter, map, mergeMap } from "rxjs/operators";
+import { finalize } from "rxjs/operators";
 
 import { Sample } from "../types/sample";
+import { BandName, Epoch, PowerByBand, PSD } from "../types/brainwaves";
+import { PowerByBandData } from "../types/brainwaves";
+import { IIRFilter, butterworthBandpass, biquad } from "./dsp/iir";
+import { FIRFilter, firBandpass } from "./dsp/fir";
+import { periodogram } from "./dsp/fft";
+import { FREQUENCY_BANDS, averageBandPower } from "./dsp/bands";
+import { GapFillMethod, StreamGap, StreamHealth } from "../types/streamHealth";
+import { ArtifactType, ArtifactThresholds } from "../types/artifacts";
+import { EpochArtifacts } from "../types/artifacts";
+import { Accelerometer } from "../types/accelerometer";
+import { SignalQuality, ChannelQuality } from "../types/signalQuality";
+import { SignalQualityThresholds } from "../types/signalQuality";
+import { DEFAULT_ARTIFACT_THRESHOLDS, detectBlinks } from "./dsp/artifacts";
+import { detectMuscle, detectMotion } from "./dsp/artifacts";
+import { detectElectrodePops } from "./dsp/artifacts";
 
 const defaultDataProp = "data";
 const defaultSamplingRate = 256;
@@ -54,7 +70,7 @@ const groupByChannel = (samplesBuffer, dataProp = defaultDataProp) =>
   );
 
 /**
- * Takes an array or RxJS buffer of EEG Samples and returns an Epoch.
+ * Takes an array or RxJS buffer of EEG Samples and returns an Epoch. When Samples carry a `marker`, the markers of every sample are added as `info.markers`.
  * @method bufferToEpoch
  * @example eeg$.pipe(bufferTime(1000), bufferToEpoch({ samplingRate: 256 }))
  *
@@ -69,7 +85,7 @@ export const bufferToEpoch = ({
   dataProp = defaultDataProp
 } = {}) =>
   pipe(
-    map((samplesArray) => ({
+    map((samplesArray: Sample[]) => ({
       [dataProp]: groupByChannel(samplesArray, dataProp),
       info: {
         ...(samplesArray[0] && samplesArray[0].info
@@ -79,7 +95,10 @@ export const bufferToEpoch = ({
         samplingRate:
           samplesArray[0].info && samplesArray[0].info.samplingRate
             ? samplesArray[0].info.samplingRate
-            : samplingRate
+            : samplingRate,
+        ...(samplesArray.some((sample) => sample.marker !== undefined)
+          ? { markers: samplesArray.map((sample) => sample.marker ?? 0) }
+          : {})
       }
     }))
   );
@@ -109,3 +128,785 @@ export const epoch = ({
     filter((samplesArray) => samplesArray.length === duration),
     bufferToEpoch({ samplingRate, dataProp })
   );
+
+const samplingRateOf = (epoch: Epoch, samplingRate?: number): number =>
+  samplingRate ?? epoch?.info?.samplingRate ?? defaultSamplingRate;
+
+/**
+ * Splits a stream of Epochs back into individual Samples. Timestamps are derived from the Epoch's `info.startTime` and sampling rate, and `info.markers` are restored as each Sample's `marker`. Useful to re-epoch a stream with a different duration or interval.
+ * @method epochToSamples
+ * @example raw$.pipe(epochToSamples(), epoch({ duration: 256, interval: 64, samplingRate: 256 }))
+ * @param {Object} [options] - Options
+ * @param {number} [options.samplingRate] Sampling rate, defaults to the Epoch's `info.samplingRate`
+ * @returns {Observable<Sample>}
+ */
+export const epochToSamples = ({
+  samplingRate = null
+}: { samplingRate?: number } = {}) =>
+  pipe(
+    mergeMap((epoch: Epoch): Sample[] => {
+      const rate = samplingRateOf(epoch, samplingRate);
+      const { startTime, markers, ...info } =
+        epoch.info ?? ({} as Epoch["info"]);
+
+      return (epoch.data[0] ?? []).map((_, sampleIndex) => ({
+        data: epoch.data.map((channel) => channel[sampleIndex]),
+        timestamp: startTime + (sampleIndex * 1000) / rate,
+        ...(markers ? { marker: markers[sampleIndex] ?? 0 } : {}),
+        info: { ...info, samplingRate: rate }
+      }));
+    })
+  );
+
+/**
+ * Number of leading samples of an Epoch already contained in the previous
+ * one, e.g. when epoching with an interval smaller than the duration
+ */
+const overlapOf = (epoch: Epoch, previous: Epoch | null): number => {
+  const startTime = epoch.info?.startTime;
+  const previousStartTime = previous?.info?.startTime;
+
+  if (!previous || startTime == null || previousStartTime == null) {
+    return 0;
+  }
+
+  const rate = samplingRateOf(epoch);
+  const previousLength = previous.data[0]?.length ?? 0;
+  const previousEndTime = previousStartTime + (previousLength * 1000) / rate;
+  const overlap = Math.round(((previousEndTime - startTime) * rate) / 1000);
+
+  // Epochs starting before the previous one are not part of the same stream
+  return startTime < previousStartTime
+    ? 0
+    : Math.max(0, Math.min(overlap, epoch.data[0]?.length ?? 0));
+};
+
+/**
+ * Applies a stateful transform to every channel of an Epoch. Channel state is
+ * created on the first Epoch of every subscription and every sample is
+ * transformed once, so the stream is filtered as a continuous signal. Samples
+ * overlapping the previous Epoch reuse its output instead of being filtered
+ * again.
+ */
+const mapChannels =
+  (
+    createChannelTransform: (
+      epoch: Epoch,
+      channelIndex: number
+    ) => (signal: number[]) => number[]
+  ) =>
+  (source: Observable<Epoch>): Observable<Epoch> =>
+    defer(() => {
+      let transforms = null;
+      let previous: Epoch = null;
+      let previousOutput: Epoch = null;
+
+      return source.pipe(
+        map((epoch: Epoch) => {
+          if (!transforms || transforms.length !== epoch.data.length) {
+            transforms = epoch.data.map((_, channelIndex) =>
+              createChannelTransform(epoch, channelIndex)
+            );
+            previous = null;
+          }
+
+          const overlap = overlapOf(epoch, previous);
+
+          const output = {
+            ...epoch,
+            data: epoch.data.map((channel, channelIndex) => {
+              const previousChannel = previousOutput?.data[channelIndex] ?? [];
+
+              return [
+                ...previousChannel.slice(previousChannel.length - overlap),
+                ...transforms[channelIndex](channel.slice(overlap))
+              ];
+            })
+          };
+
+          previous = epoch;
+          previousOutput = output;
+
+          return output;
+        })
+      );
+    });
+
+/**
+ * Band-pass filters every channel of a stream of Epochs. The IIR filter is a Butterworth filter and the FIR filter a Hamming windowed-sinc with a delay of `order / 2` samples. Overlapping Epochs, e.g. from `brainwaves("raw", { epochSize, hop })`, are filtered as the continuous signal they were cut from.
+ * @method bandpassFilter
+ * @example eeg$.pipe(bandpassFilter({ lowCutoff: 1, highCutoff: 50 }))
+ * @param {Object} options - Filter options
+ * @param {number} options.lowCutoff Low cutoff frequency in Hz
+ * @param {number} options.highCutoff High cutoff frequency in Hz
+ * @param {string} [options.type='iir'] Either `iir` or `fir`
+ * @param {number} [options.order] Filter order. Defaults to 4 for IIR and 64 for FIR
+ * @param {number} [options.samplingRate] Sampling rate, defaults to the Epoch's `info.samplingRate`
+ * @returns {Observable<Epoch>}
+ */
+export const bandpassFilter = ({
+  lowCutoff,
+  highCutoff,
+  type = "iir",
+  order = type === "fir" ? 64 : 4,
+  samplingRate = null
+}: {
+  lowCutoff: number;
+  highCutoff: number;
+  type?: "iir" | "fir";
+  order?: number;
+  samplingRate?: number;
+}) =>
+  mapChannels((epoch) => {
+    const rate = samplingRateOf(epoch, samplingRate);
+
+    if (type === "fir") {
+      const filter = new FIRFilter(
+        firBandpass(lowCutoff, highCutoff, rate, order)
+      );
+      return (signal) => filter.process(signal);
+    }
+
+    const filter = new IIRFilter(
+      butterworthBandpass(lowCutoff, highCutoff, rate, order)
+    );
+    return (signal) => filter.process(signal);
+  });
+
+/**
+ * Removes power line interference with an IIR notch filter
+ * @method notchFilter
+ * @example eeg$.pipe(notchFilter({ frequency: 50 }))
+ * @param {Object} [options] - Filter options
+ * @param {number} [options.frequency=60] Line frequency in Hz, usually 50 or 60
+ * @param {number} [options.quality=30] Quality factor, higher values make the notch narrower
+ * @param {number} [options.samplingRate] Sampling rate, defaults to the Epoch's `info.samplingRate`
+ * @returns {Observable<Epoch>}
+ */
+export const notchFilter = ({
+  frequency = 60,
+  quality = 30,
+  samplingRate = null
+}: {
+  frequency?: number;
+  quality?: number;
+  samplingRate?: number;
+} = {}) =>
+  mapChannels((epoch) => {
+    const filter = new IIRFilter([
+      biquad("notch", frequency, samplingRateOf(epoch, samplingRate), quality)
+    ]);
+    return (signal) => filter.process(signal);
+  });
+
+/**
+ * Re-references every sample to the average of all channels (common average reference)
+ * @method commonAverageReference
+ * @example eeg$.pipe(commonAverageReference())
+ * @returns {Observable<Epoch>}
+ */
+export const commonAverageReference = () =>
+  pipe(
+    map((epoch: Epoch): Epoch => {
+      const channelCount = epoch.data.length;
+      const averages = (epoch.data[0] ?? []).map(
+        (_, sampleIndex) =>
+          epoch.data.reduce((sum, channel) => sum + channel[sampleIndex], 0) /
+          channelCount
+      );
+
+      return {
+        ...epoch,
+        data: epoch.data.map((channel) =>
+          channel.map((value, sampleIndex) => value - averages[sampleIndex])
+        )
+      };
+    })
+  );
+
+/**
+ * Removes the mean (`constant`) or the least-squares line (`linear`) from every channel of an Epoch
+ * @method detrend
+ * @example eeg$.pipe(detrend())
+ * @param {Object} [options] - Detrend options
+ * @param {string} [options.type='linear'] Either `linear` or `constant`
+ * @returns {Observable<Epoch>}
+ */
+export const detrend = ({
+  type = "linear"
+}: { type?: "linear" | "constant" } = {}) =>
+  pipe(
+    map((epoch: Epoch): Epoch => ({
+      ...epoch,
+      data: epoch.data.map((channel) => {
+        const size = channel.length;
+        const meanX = (size - 1) / 2;
+        const meanY = channel.reduce((sum, value) => sum + value, 0) / size;
+
+        if (type === "constant" || size < 2) {
+          return channel.map((value) => value - meanY);
+        }
+
+        let covariance = 0;
+        let variance = 0;
+        channel.forEach((value, x) => {
+          covariance += (x - meanX) * (value - meanY);
+          variance += (x - meanX) ** 2;
+        });
+        const slope = covariance / variance;
+
+        return channel.map((value, x) => value - (meanY + slope * (x - meanX)));
+      })
+    }))
+  );
+
+const computePSD = (
+  epoch: Epoch,
+  samplingRate?: number,
+  fftSize?: number
+): PSD => {
+  const rate = samplingRateOf(epoch, samplingRate);
+  const spectrums = epoch.data.map((channel) =>
+    periodogram(channel, rate, fftSize ?? undefined)
+  );
+
+  return {
+    label: "psd",
+    psd: spectrums.map((spectrum) => spectrum.psd),
+    freqs: spectrums[0]?.freqs ?? [],
+    info: {
+      samplingRate: rate,
+      startTime: epoch.info.startTime
+    }
+  };
+};
+
+/**
+ * Computes the power spectral density of every channel of an Epoch using a Hann windowed FFT.
+ * Emits the same `{ label, freqs, info, psd }` envelope as `brainwaves("psd")`.
+ * @method toPSD
+ * @example eeg$.pipe(epoch({ duration: 256, interval: 64 }), toPSD())
+ * @param {Object} [options] - PSD options
+ * @param {number} [options.fftSize] Minimum FFT size for zero padding, rounded up to a power of two. Never shorter than the Epoch, which is used whole
+ * @param {number} [options.samplingRate] Sampling rate, defaults to the Epoch's `info.samplingRate`
+ * @returns {Observable<PSD>}
+ */
+export const toPSD = ({
+  fftSize = null,
+  samplingRate = null
+}: { fftSize?: number; samplingRate?: number } = {}) =>
+  pipe(map((epoch: Epoch): PSD => computePSD(epoch, samplingRate, fftSize)));
+
+/**
+ * Computes the average power per channel of every frequency band. Accepts either Epochs or the output of `toPSD`.
+ * Emits the same `{ label, data }` envelope as `brainwaves("powerByBand")`.
+ * @method toPowerByBand
+ * @example eeg$.pipe(epoch({ duration: 256, interval: 64 }), toPowerByBand())
+ * @param {Object} [options] - Power by band options
+ * @param {Object} [options.bands] Frequency ranges in Hz by band name
+ * @param {number} [options.samplingRate] Sampling rate, defaults to the Epoch's `info.samplingRate`
+ * @returns {Observable<PowerByBand>}
+ */
+export const toPowerByBand = ({
+  bands = FREQUENCY_BANDS,
+  samplingRate = null
+}: {
+  bands?: { [band in BandName]: [number, number] };
+  samplingRate?: number;
+} = {}) =>
+  pipe(
+    map((epochOrPSD: Epoch | PSD): PSD =>
+      "psd" in epochOrPSD ? epochOrPSD : computePSD(epochOrPSD, samplingRate)
+    ),
+    map(
+      ({ psd, freqs }: PSD): PowerByBand => ({
+        label: "powerByBand",
+        data: Object.entries(bands).reduce(
+          (data, [band, range]) => ({
+            ...data,
+            [band]: averageBandPower(psd, freqs, range)
+          }),
+          {} as PowerByBandData
+        )
+      })
+    )
+  );
+
+const sampleCountOf = (epoch: Epoch): number => epoch.data[0]?.length ?? 0;
+
+const sliceEpoch = (epoch: Epoch, start: number, samplingRate: number) => ({
+  ...epoch,
+  data: epoch.data.map((channel) => channel.slice(start)),
+  info: {
+    ...epoch.info,
+    startTime: epoch.info.startTime + (start * 1000) / samplingRate,
+    ...(epoch.info.markers ? { markers: epoch.info.markers.slice(start) } : {})
+  }
+});
+
+/**
+ * Compares the start time of an Epoch with the time at which it was expected
+ * to start given the previous Epoch. Missing and duplicated samples are
+ * rounded to whole samples and the remainder is reported as `residual`.
+ */
+const compareToPrevious = (
+  previous: Epoch,
+  epoch: Epoch,
+  samplingRate: number
+) => {
+  const period = 1000 / samplingRate;
+  const expectedTime =
+    previous.info.startTime + sampleCountOf(previous) * period;
+  const deviation = epoch.info.startTime - expectedTime;
+  const samples = Math.round(deviation / period);
+
+  return {
+    expectedTime,
+    missingSamples: Math.max(samples, 0),
+    duplicateSamples: Math.max(-samples, 0),
+    residual: deviation - samples * period
+  };
+};
+
+/**
+ * Detects dropped and duplicated samples from the Epochs' `info.startTime` and sampling rate, and emits the health of the stream for every Epoch over a sliding window.
+ * @method toStreamHealth
+ * @example eeg$.pipe(toStreamHealth({ windowSize: 10000 }))
+ * @param {Object} [options] - Stream health options
+ * @param {number} [options.windowSize=10000] Duration in ms of the window used for the statistics
+ * @param {number} [options.samplingRate] Sampling rate, defaults to the Epoch's `info.samplingRate`
+ * @returns {Observable<StreamHealth>}
+ */
+export const toStreamHealth = ({
+  windowSize = 10000,
+  samplingRate = null
+}: { windowSize?: number; samplingRate?: number } = {}) =>
+  (source: Observable<Epoch>): Observable<StreamHealth> =>
+    defer(() => {
+      let previous: Epoch = null;
+      let entries: {
+        startTime: number;
+        receivedSamples: number;
+        missingSamples: number;
+        duplicateSamples: number;
+        residual: number;
+        gap: StreamGap | null;
+      }[] = [];
+
+      return source.pipe(
+        map((epoch: Epoch): StreamHealth => {
+          const rate = samplingRateOf(epoch, samplingRate);
+          const period = 1000 / rate;
+          const comparison = previous
+            ? compareToPrevious(previous, epoch, rate)
+            : null;
+          const missingSamples = comparison?.missingSamples ?? 0;
+          const duplicateSamples = Math.min(
+            comparison?.duplicateSamples ?? 0,
+            sampleCountOf(epoch)
+          );
+
+          const gap: StreamGap | null =
+            missingSamples || duplicateSamples
+              ? {
+                  type: missingSamples ? "gap" : "duplicate",
+                  startTime: missingSamples
+                    ? comparison.expectedTime
+                    : epoch.info.startTime,
+                  samples: missingSamples || duplicateSamples,
+                  duration: (missingSamples || duplicateSamples) * period
+                }
+              : null;
+
+          // Fully duplicated epochs don't move the expected time forward
+          if (!comparison || duplicateSamples < sampleCountOf(epoch)) {
+            previous = epoch;
+          }
+
+          entries = entries
+            .concat({
+              startTime: epoch.info.startTime,
+              receivedSamples: sampleCountOf(epoch),
+              missingSamples,
+              duplicateSamples,
+              residual: comparison?.residual ?? null,
+              gap
+            })
+            .filter(
+              (entry) => entry.startTime > epoch.info.startTime - windowSize
+            );
+
+          const sum = (key: string) =>
+            entries.reduce((total, entry) => total + entry[key], 0);
+          const receivedSamples = sum("receivedSamples");
+          const missing = sum("missingSamples");
+          const duplicates = sum("duplicateSamples");
+          const expectedSamples = receivedSamples - duplicates + missing;
+
+          const residuals = entries
+            .map((entry) => entry.residual)
+            .filter((residual) => residual !== null);
+          const meanResidual =
+            residuals.reduce((total, residual) => total + residual, 0) /
+            (residuals.length || 1);
+          const jitter = Math.sqrt(
+            residuals.reduce(
+              (total, residual) => total + (residual - meanResidual) ** 2,
+              0
+            ) / (residuals.length || 1)
+          );
+
+          return {
+            samplingRate: rate,
+            receivedSamples,
+            missingSamples: missing,
+            duplicateSamples: duplicates,
+            lossRate: expectedSamples ? missing / expectedSamples : 0,
+            jitter,
+            gaps: entries.map((entry) => entry.gap).filter((gap) => !!gap),
+            timestamp: epoch.info.startTime
+          };
+        })
+      );
+    });
+
+/**
+ * Fills dropped samples between consecutive Epochs and removes duplicated samples, so downstream filters receive a continuous signal. Missing samples are emitted as an extra Epoch before the next one, linearly interpolated between the neighbouring samples or filled with `NaN`. Gaps longer than `maxGap` are not filled.
+ * The `nan` method is unsafe before `bandpassFilter`, `notchFilter` or any other stateful filter: a single `NaN` corrupts the filter state, and every later sample, for the rest of the stream. Only use it to mark gaps after filtering or for display.
+ * @method fillGaps
+ * @example eeg$.pipe(fillGaps(), bandpassFilter({ lowCutoff: 1, highCutoff: 50 }))
+ * @param {Object} [options] - Gap filling options
+ * @param {string} [options.method='interpolate'] Either `interpolate` or `nan`
+ * @param {number} [options.maxGap=5000] Longest gap in ms to fill
+ * @param {number} [options.samplingRate] Sampling rate, defaults to the Epoch's `info.samplingRate`
+ * @returns {Observable<Epoch>}
+ */
+export const fillGaps = ({
+  method = "interpolate",
+  maxGap = 5000,
+  samplingRate = null
+}: {
+  method?: GapFillMethod;
+  maxGap?: number;
+  samplingRate?: number;
+} = {}) =>
+  (source: Observable<Epoch>): Observable<Epoch> =>
+    defer(() => {
+      let previous: Epoch = null;
+
+      return source.pipe(
+        mergeMap((epoch: Epoch): Epoch[] => {
+          const last = previous;
+          previous = epoch;
+
+          if (!last) {
+            return [epoch];
+          }
+
+          const rate = samplingRateOf(epoch, samplingRate);
+          const { expectedTime, missingSamples, duplicateSamples } =
+            compareToPrevious(last, epoch, rate);
+
+          if (duplicateSamples) {
+            if (duplicateSamples >= sampleCountOf(epoch)) {
+              previous = last;
+              return [];
+            }
+
+            return [sliceEpoch(epoch, duplicateSamples, rate)];
+          }
+
+          if (!missingSamples || (missingSamples * 1000) / rate > maxGap) {
+            return [epoch];
+          }
+
+          const filler: Epoch = {
+            ...epoch,
+            data: epoch.data.map((channel, channelIndex) => {
+              const from = last.data[channelIndex][sampleCountOf(last) - 1];
+              const to = channel[0];
+
+              return Array.from({ length: missingSamples }, (_, index) =>
+                method === "interpolate"
+                  ? from + ((to - from) * (index + 1)) / (missingSamples + 1)
+                  : NaN
+              );
+            }),
+            info: {
+              ...epoch.info,
+              startTime: expectedTime,
+              ...(epoch.info.markers
+                ? { markers: new Array(missingSamples).fill(0) }
+                : {})
+            }
+          };
+
+          return [filler, epoch];
+        })
+      );
+    });
+
+const ARTIFACT_TYPES: ArtifactType[] = [
+  "blink",
+  "jawClench",
+  "motion",
+  "electrodePop"
+];
+// Accelerometer samples are kept for this long to match them with epochs
+const ACCELEROMETER_BUFFER_DURATION = 5000;
+// Margin around epochs when looking for accelerometer samples
+const ACCELEROMETER_MARGIN = 100;
+
+/**
+ * Flags eye blinks, jaw clenches, electrode pops and, when an accelerometer stream is provided, motion. Epochs are annotated with `info.artifacts`, which holds the artifact labels and per-channel masks. Thresholds are in microvolts, except for motion which is in g. Jaw clenches need epochs long enough to resolve frequencies above 30Hz.
+ * @method detectArtifacts
+ * @example eeg$.pipe(detectArtifacts({ accelerometer: neurosity.accelerometer() }))
+ * @param {Object} [options] - Artifact detection options
+ * @param {Object} [options.thresholds] Thresholds by artifact type
+ * @param {Observable<Accelerometer>} [options.accelerometer] Accelerometer stream used to detect motion
+ * @param {number} [options.samplingRate] Sampling rate, defaults to the Epoch's `info.samplingRate`
+ * @returns {Observable<Epoch>}
+ */
+export const detectArtifacts = ({
+  thresholds = {},
+  accelerometer = null,
+  samplingRate = null
+}: {
+  thresholds?: ArtifactThresholds;
+  accelerometer?: Observable<Accelerometer>;
+  samplingRate?: number;
+} = {}) =>
+  (source: Observable<Epoch>): Observable<Epoch> =>
+    defer(() => {
+      const limits = { ...DEFAULT_ARTIFACT_THRESHOLDS, ...thresholds };
+      let accelerometerSamples: Accelerometer[] = [];
+
+      const accelerometerSubscription = accelerometer?.subscribe((sample) => {
+        accelerometerSamples = accelerometerSamples
+          .concat(sample)
+          .filter(
+            ({ timestamp }) =>
+              timestamp > sample.timestamp - ACCELEROMETER_BUFFER_DURATION
+          );
+      });
+
+      return source.pipe(
+        map((epoch: Epoch): Epoch => {
+          const rate = samplingRateOf(epoch, samplingRate);
+          const { startTime, channelNames } = epoch.info;
+          const endTime = startTime + (sampleCountOf(epoch) * 1000) / rate;
+          const allChannels = epoch.data.map(() => true);
+
+          const muscle = detectMuscle(epoch.data, rate, limits.jawClench);
+          const hasMotion =
+            !!accelerometer &&
+            detectMotion(
+              accelerometerSamples.filter(
+                ({ timestamp }) =>
+                  timestamp >= startTime - ACCELEROMETER_MARGIN &&
+                  timestamp <= endTime + ACCELEROMETER_MARGIN
+              ),
+              limits.motion
+            );
+
+          const masks: EpochArtifacts["channels"] = {
+            blink: detectBlinks(epoch.data, channelNames, rate, limits.blink),
+            // A clench affects most channels at once
+            jawClench:
+              muscle.filter(Boolean).length >= epoch.data.length / 2
+                ? muscle
+                : null,
+            motion: hasMotion ? allChannels : null,
+            electrodePop: detectElectrodePops(epoch.data, limits.electrodePop)
+          };
+
+          const labels = ARTIFACT_TYPES.filter((type) =>
+            masks[type]?.some(Boolean)
+          );
+          const channels = labels.reduce(
+            (detected, type) => ({ ...detected, [type]: masks[type] }),
+            {} as EpochArtifacts["channels"]
+          );
+
+          return {
+            ...epoch,
+            info: {
+              ...epoch.info,
+              artifacts: {
+                labels,
+                channels,
+                badChannels: epoch.data.map((_, channelIndex) =>
+                  labels.some((type) => channels[type][channelIndex])
+                )
+              }
+            }
+          };
+        }),
+        finalize(() => accelerometerSubscription?.unsubscribe())
+      );
+    });
+
+/**
+ * Drops Epochs flagged by `detectArtifacts` with any of the given artifact types
+ * @method rejectArtifacts
+ * @example eeg$.pipe(detectArtifacts(), rejectArtifacts({ types: ["blink", "motion"] }))
+ * @param {Object} [options] - Rejection options
+ * @param {Array<string>} [options.types] Artifact types to reject, defaults to all
+ * @returns {Observable<Epoch>}
+ */
+export const rejectArtifacts = ({
+  types = ARTIFACT_TYPES
+}: { types?: ArtifactType[] } = {}) =>
+  pipe(
+    filter(
+      (epoch: Epoch) =>
+        !(epoch.info?.artifacts?.labels ?? []).some((type) =>
+          types.includes(type)
+        )
+    )
+  );
+
+/**
+ * Replaces channels flagged by `detectArtifacts` with the average of their neighbours, or of every unaffected channel when no neighbours are given. Channels are left as is when all their neighbours are affected too.
+ * @method interpolateBadChannels
+ * @example eeg$.pipe(detectArtifacts(), interpolateBadChannels({ neighbors: { C3: ["CP3", "F5"] } }))
+ * @param {Object} [options] - Interpolation options
+ * @param {Array<string>} [options.types=['electrodePop']] Artifact types that make a channel bad
+ * @param {Object} [options.neighbors] Neighbouring channel names by channel name
+ * @returns {Observable<Epoch>}
+ */
+export const interpolateBadChannels = ({
+  types = ["electrodePop"],
+  neighbors = null
+}: {
+  types?: ArtifactType[];
+  neighbors?: { [channelName: string]: string[] };
+} = {}) =>
+  pipe(
+    map((epoch: Epoch): Epoch => {
+      const { artifacts, channelNames = [] } = epoch.info;
+      const isBad = epoch.data.map((_, channelIndex) =>
+        types.some((type) => !!artifacts?.channels[type]?.[channelIndex])
+      );
+
+      if (!isBad.some(Boolean)) {
+        return epoch;
+      }
+
+      return {
+        ...epoch,
+        data: epoch.data.map((channel, channelIndex) => {
+          if (!isBad[channelIndex]) {
+            return channel;
+          }
+
+          const candidates =
+            neighbors?.[channelNames[channelIndex]]?.map((name) =>
+              channelNames.indexOf(name)
+            ) ?? epoch.data.map((_, index) => index);
+          const sources = candidates.filter(
+            (index) => index >= 0 && index !== channelIndex && !isBad[index]
+          );
+
+          if (!sources.length) {
+            return channel;
+          }
+
+          return channel.map(
+            (_, sampleIndex) =>
+              sources.reduce(
+                (sum, index) => sum + epoch.data[index][sampleIndex],
+                0
+              ) / sources.length
+          );
+        })
+      };
+    })
+  );
+
+const DEFAULT_SIGNAL_QUALITY_THRESHOLDS = {
+  great: 10,
+  good: 20,
+  lineNoise: 50,
+  flat: 0.5,
+  saturated: 1000
+};
+// Width in Hz of the band around the line frequency counted as line noise
+const LINE_NOISE_BANDWIDTH = 2;
+// Slow drifts below this frequency are not counted as signal
+const SIGNAL_QUALITY_LOW_CUTOFF = 1;
+
+/**
+ * Estimates the signal quality of every channel of an Epoch, in the same shape as `neurosity.signalQuality()`. The standard deviation excludes drifts below 1Hz and line noise. Channels are `noContact` when flat or saturated, and `bad` when line noise or the standard deviation are above their thresholds. Works best with `rawUnfiltered` epochs of at least one second.
+ * @method toSignalQuality
+ * @example rawUnfiltered$.pipe(epochToSamples(), epoch({ duration: 256, interval: 64 }), toSignalQuality({ lineFrequency: 50 }))
+ * @param {Object} [options] - Signal quality options
+ * @param {Object} [options.thresholds] Thresholds in microvolts
+ * @param {number} [options.lineFrequency=60] Line frequency in Hz, usually 50 or 60
+ * @param {number} [options.samplingRate] Sampling rate, defaults to the Epoch's `info.samplingRate`
+ * @returns {Observable<SignalQuality>}
+ */
+export const toSignalQuality = ({
+  thresholds = {},
+  lineFrequency = 60,
+  samplingRate = null
+}: {
+  thresholds?: SignalQualityThresholds;
+  lineFrequency?: number;
+  samplingRate?: number;
+} = {}) =>
+  pipe(
+    map((epoch: Epoch): SignalQuality => {
+      const limits = { ...DEFAULT_SIGNAL_QUALITY_THRESHOLDS, ...thresholds };
+      const rate = samplingRateOf(epoch, samplingRate);
+      const channelNames =
+        epoch.info?.channelNames ??
+        epoch.data.map((_, channelIndex) => `CH${channelIndex + 1}`);
+
+      return epoch.data.reduce((signalQuality, channel, channelIndex) => {
+        const mean =
+          channel.reduce((sum, value) => sum + value, 0) / channel.length;
+        const rawStandardDeviation = Math.sqrt(
+          channel.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+            channel.length
+        );
+
+        const { psd, freqs } = periodogram(channel, rate);
+        const resolution = freqs[1] - freqs[0] || 0;
+        const isLineNoise = (freq: number) =>
+          Math.abs(freq - lineFrequency) <= LINE_NOISE_BANDWIDTH;
+
+        let signalPower = 0;
+        let linePower = 0;
+        psd.forEach((power, index) => {
+          if (isLineNoise(freqs[index])) {
+            linePower += power * resolution;
+          } else if (freqs[index] >= SIGNAL_QUALITY_LOW_CUTOFF) {
+            signalPower += power * resolution;
+          }
+        });
+
+        const standardDeviation = Math.sqrt(signalPower);
+        let status: ChannelQuality["status"] = "great";
+
+        if (
+          rawStandardDeviation < limits.flat ||
+          rawStandardDeviation > limits.saturated
+        ) {
+          status = "noContact";
+        } else if (
+          Math.sqrt(linePower) > limits.lineNoise ||
+          standardDeviation > limits.good
+        ) {
+          status = "bad";
+        } else if (standardDeviation > limits.great) {
+          status = "good";
+        }
+
+        return {
+          ...signalQuality,
+          [channelNames[channelIndex]]: { standardDeviation, status }
+        };
+      }, {} as SignalQuality);
+    })
+  );